@@ -0,0 +1,52 @@
+import fs from "fs";
+import path from "path";
+import type { Connect, Plugin } from "vite";
+
+// Local stand-in for the catalog REST API. Served by both `vite` and
+// `vite preview`; point VITE_CATALOG_URL at a real backend to bypass it.
+const API_PREFIX = "/api";
+
+// Static copy of the list written into the build, so a plain static deploy has a catalog too
+const STATIC_CATALOG = "api/ornaments.json";
+
+function readJson(file: string): unknown {
+  return JSON.parse(fs.readFileSync(path.resolve(__dirname, file), "utf-8"));
+}
+
+const handler: Connect.NextHandleFunction = (req, res, next) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  if (!url.pathname.startsWith(`${API_PREFIX}/`)) return next();
+
+  const send = (status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  };
+
+  const match = url.pathname.match(/^\/api\/ornaments(?:\.json|\/(\d+))?\/?$/);
+  if (req.method !== "GET" || !match) {
+    return send(404, { message: `No mock for ${req.method} ${url.pathname}` });
+  }
+
+  // Re-read on every request so edits to the JSON show up without a restart
+  const ornaments = readJson("ornaments.json") as { id: number }[];
+  if (!match[1]) return send(200, ornaments);
+
+  const ornament = ornaments.find((o) => o.id === Number(match[1]));
+  return ornament ? send(200, ornament) : send(404, { message: "Ornament not found" });
+};
+
+export function mockApi(): Plugin {
+  return {
+    name: "grc-mock-api",
+    configureServer(server) {
+      server.middlewares.use(handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handler);
+    },
+    generateBundle() {
+      this.emitFile({ type: "asset", fileName: STATIC_CATALOG, source: JSON.stringify(readJson("ornaments.json")) });
+    },
+  };
+}
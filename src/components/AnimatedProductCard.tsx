@@ -1,93 +1,103 @@
+import type { ReactNode } from "react";
 import { motion, useTransform, MotionValue, useSpring } from "framer-motion";
-import ornamentImage from "@/assets/grc-ornament.jpg";
+import { useLowMotion } from "@/hooks/use-low-motion";
+import { crossFadeKeyframes, type StorySectionKeyframe } from "@/lib/story-keyframes";
+
+// Share of the scroll at either end over which the card fades and grows in, and fades out again
+const FADE = 0.08;
 
 interface AnimatedProductCardProps {
   scrollProgress: MotionValue<number>;
+  /** One entry per slot, in scroll order. */
+  sections: StorySectionKeyframe[];
+  /** Measured slot centers, as offsets from the viewport center; one per section. */
   targets?: { x: number; y: number }[];
+  image: string;
+  imageAlt: string;
+  title: ReactNode;
+  subtitle?: ReactNode;
 }
 
-export const AnimatedProductCard = ({ scrollProgress, targets }: AnimatedProductCardProps) => {
+export const AnimatedProductCard = ({
+  scrollProgress,
+  sections,
+  targets,
+  image,
+  imageAlt,
+  title,
+  subtitle,
+}: AnimatedProductCardProps) => {
+  const { isLowMotion } = useLowMotion();
   // Stable target mapping based on measured puzzle slot centers
-  const t = targets ?? [
-    { x: 0, y: 0 },
-    { x: 0, y: 0 },
-    { x: 0, y: 0 },
-    { x: 0, y: 0 },
-  ];
-  const safe = (i: number) => t[i] ?? { x: 0, y: 0 };
-  const points = [0, 0.24, 0.26, 0.49, 0.51, 0.74, 0.76, 1.0];
+  const safe = (i: number) => targets?.[i] ?? { x: 0, y: 0 };
+  // Each section holds its values across its dwell range; between ranges they interpolate
+  const points = sections.flatMap((section) => section.dwell);
+  const held = (value: (section: StorySectionKeyframe, index: number) => number) =>
+    sections.flatMap((section, index) => [value(section, index), value(section, index)]);
 
-  const xRaw = useTransform(scrollProgress, points, [
-    safe(0).x,
-    safe(0).x,
-    safe(1).x,
-    safe(1).x,
-    safe(2).x,
-    safe(2).x,
-    safe(3).x,
-    safe(3).x,
-  ]);
-  const yRaw = useTransform(scrollProgress, points, [
-    safe(0).y,
-    safe(0).y,
-    safe(1).y,
-    safe(1).y,
-    safe(2).y,
-    safe(2).y,
-    safe(3).y,
-    safe(3).y,
-  ]);
+  const xRaw = useTransform(scrollProgress, points, held((_, i) => safe(i).x));
+  const yRaw = useTransform(scrollProgress, points, held((_, i) => safe(i).y));
 
-  const x = useSpring(xRaw, { stiffness: 160, damping: 26, mass: 0.9 });
-  const y = useSpring(yRaw, { stiffness: 160, damping: 26, mass: 0.9 });
+  const xSpring = useSpring(xRaw, { stiffness: 160, damping: 26, mass: 0.9 });
+  const ySpring = useSpring(yRaw, { stiffness: 160, damping: 26, mass: 0.9 });
 
-  // Scale with smooth emphasis on section 3
-  const scale = useTransform(
-    scrollProgress,
-    [0, 0.04, 0.08, 0.48, 0.5, 0.52, 0.54, 0.92],
-    [0.85, 0.95, 1, 1, 1.05, 1.15, 1.05, 1]
-  );
+  // Per-section emphasis, on top of the card growing in at the start of the page
+  const sectionScale = useTransform(scrollProgress, points, held((section) => section.scale ?? 1));
+  const introScale = useTransform(scrollProgress, [0, FADE / 2, FADE], [0.85, 0.95, 1]);
+  const scale = useTransform([introScale, sectionScale], ([intro, emphasis]: number[]) => intro * emphasis);
+  const rotate = useTransform(scrollProgress, points, held((section) => section.rotate ?? 0));
 
   // Smooth opacity
   const opacity = useTransform(
     scrollProgress,
-    [0, 0.04, 0.08, 0.92, 0.96, 1.0],
+    [0, FADE / 2, FADE, 1 - FADE, 1 - FADE / 2, 1.0],
     [0, 0.6, 1, 1, 0.6, 0]
   );
 
+  // Low motion: no springs, scaling or tilt; the card cross-fades from one slot to the next
+  const crossFade = crossFadeKeyframes(sections);
+  const xJump = useTransform(scrollProgress, crossFade.points, crossFade.section.map((i) => safe(i).x));
+  const yJump = useTransform(scrollProgress, crossFade.points, crossFade.section.map((i) => safe(i).y));
+  const crossFadeOpacity = useTransform(scrollProgress, crossFade.points, crossFade.opacity);
+
   return (
-    <motion.div
-      className="pointer-events-none fixed left-1/2 top-1/2 z-50 w-[500px] max-w-[90vw] -translate-x-1/2 -translate-y-1/2"
-      style={{
-        x,
-        y,
-        scale,
-        opacity,
-      }}
-      transition={{
-        type: "spring",
-        stiffness: 60,
-        damping: 35,
-        mass: 1,
-      }}
-    >
-      <div className="overflow-hidden rounded-2xl bg-white shadow-2xl">
-        <div className="aspect-[4/3] overflow-hidden">
-          <img
-            src={ornamentImage}
-            alt="Premium GRC Wall Ornament"
-            className="h-full w-full object-cover"
-          />
-        </div>
-        <div className="bg-gradient-to-br from-white to-neutral-50 p-6">
-          <h3 className="mb-2 bg-gradient-to-r from-neutral-800 to-neutral-600 bg-clip-text text-2xl font-bold text-transparent">
-            Venetian Collection
-          </h3>
-          <p className="text-neutral-600">
-            Handcrafted GRC wall ornament with classical elegance
-          </p>
+    // Centered by a plain wrapper: the inline transform framer-motion writes would replace the translate classes
+    <div className="pointer-events-none fixed left-1/2 top-1/2 z-50 w-[500px] max-w-[90vw] -translate-x-1/2 -translate-y-1/2">
+      <motion.div
+        style={
+          isLowMotion
+            ? { x: xJump, y: yJump, opacity: crossFadeOpacity }
+            : {
+                x: xSpring,
+                y: ySpring,
+                scale,
+                rotate,
+                opacity,
+              }
+        }
+        transition={{
+          type: "spring",
+          stiffness: 60,
+          damping: 35,
+          mass: 1,
+        }}
+      >
+        <div className="overflow-hidden rounded-2xl bg-white shadow-2xl">
+          <div className="aspect-[4/3] overflow-hidden">
+            <img
+              src={image}
+              alt={imageAlt}
+              className="h-full w-full object-cover"
+            />
+          </div>
+          <div className="bg-gradient-to-br from-white to-neutral-50 p-6">
+            <h3 className="mb-2 bg-gradient-to-r from-neutral-800 to-neutral-600 bg-clip-text text-2xl font-bold text-transparent">
+              {title}
+            </h3>
+            {subtitle && <p className="text-neutral-600">{subtitle}</p>}
+          </div>
         </div>
-      </div>
-    </motion.div>
+      </motion.div>
+    </div>
   );
 };
@@ -1,4 +1,5 @@
 import { motion, useTransform, MotionValue } from "framer-motion";
+import { useLowMotion } from "@/hooks/use-low-motion";
 
 interface AnimatedTextProps {
   children: React.ReactNode;
@@ -9,6 +10,14 @@ interface AnimatedTextProps {
   className?: string;
 }
 
+// Distance (px) the text travels in from and out towards, per direction
+const travel = {
+  left: [120, 0, 0, -120],
+  right: [-120, 0, 0, 120],
+  up: [80, 0, 0, -80],
+  down: [-80, 0, 0, 80],
+};
+
 export const AnimatedText = ({
   children,
   scrollProgress,
@@ -17,12 +26,11 @@ export const AnimatedText = ({
   direction = "up",
   className = "",
 }: AnimatedTextProps) => {
+  const { isLowMotion } = useLowMotion();
+  const range = [startProgress - 0.1, startProgress, endProgress, endProgress + 0.1];
+
   // Smooth opacity transitions
-  const opacity = useTransform(
-    scrollProgress,
-    [startProgress - 0.1, startProgress, endProgress, endProgress + 0.1],
-    [0, 1, 1, 0]
-  );
+  const opacity = useTransform(scrollProgress, range, [0, 1, 1, 0]);
 
   // Dynamic scale for emphasis
   const scale = useTransform(
@@ -34,51 +42,27 @@ export const AnimatedText = ({
   // Rotation effect for more dynamic movement
   const rotate = useTransform(
     scrollProgress,
-    [startProgress - 0.1, startProgress, endProgress, endProgress + 0.1],
-    direction === "left" ? [8, 0, 0, -8] : 
-    direction === "right" ? [-8, 0, 0, 8] : 
+    range,
+    direction === "left" ? [8, 0, 0, -8] :
+    direction === "right" ? [-8, 0, 0, 8] :
     [0, 0, 0, 0]
   );
 
-  const getTransform = () => {
-    switch (direction) {
-      case "left":
-        return useTransform(
-          scrollProgress,
-          [startProgress - 0.1, startProgress, endProgress, endProgress + 0.1],
-          [120, 0, 0, -120]
-        );
-      case "right":
-        return useTransform(
-          scrollProgress,
-          [startProgress - 0.1, startProgress, endProgress, endProgress + 0.1],
-          [-120, 0, 0, 120]
-        );
-      case "up":
-        return useTransform(
-          scrollProgress,
-          [startProgress - 0.1, startProgress, endProgress, endProgress + 0.1],
-          [80, 0, 0, -80]
-        );
-      case "down":
-        return useTransform(
-          scrollProgress,
-          [startProgress - 0.1, startProgress, endProgress, endProgress + 0.1],
-          [-80, 0, 0, 80]
-        );
-    }
-  };
-
-  const transform = getTransform();
+  const transform = useTransform(scrollProgress, range, travel[direction]);
 
   return (
     <motion.div
-      style={{
-        opacity,
-        scale,
-        rotate,
-        [direction === "left" || direction === "right" ? "x" : "y"]: transform,
-      }}
+      // Low motion keeps only the cross-fade
+      style={
+        isLowMotion
+          ? { opacity }
+          : {
+              opacity,
+              scale,
+              rotate,
+              [direction === "left" || direction === "right" ? "x" : "y"]: transform,
+            }
+      }
       className={className}
     >
       {children}
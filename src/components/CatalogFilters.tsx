@@ -0,0 +1,90 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  emptyCatalogFilter,
+  isCatalogFilterActive,
+  specOptions,
+  type CatalogFilter,
+  type OrnamentData,
+} from "@/lib/catalog";
+
+export type FilterMode = "dim" | "hide";
+
+interface CatalogFiltersProps {
+  ornaments: OrnamentData[];
+  filter: CatalogFilter;
+  onFilterChange: (filter: CatalogFilter) => void;
+  mode: FilterMode;
+  onModeChange: (mode: FilterMode) => void;
+  matchCount: number;
+}
+
+const chipClassName =
+  "h-7 px-3 rounded-full border border-accent/20 bg-background/10 font-mono text-[10px] uppercase tracking-widest text-muted-foreground hover:bg-accent/10 hover:text-accent data-[state=on]:bg-accent/20 data-[state=on]:border-accent/50 data-[state=on]:text-accent";
+
+export const CatalogFilters = ({
+  ornaments,
+  filter,
+  onFilterChange,
+  mode,
+  onModeChange,
+  matchCount,
+}: CatalogFiltersProps) => {
+  const { t, formatNumber } = useI18n();
+  const isActive = isCatalogFilterActive(filter);
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <ToggleGroup
+        type="multiple"
+        aria-label={t("filters.category")}
+        value={filter.categories}
+        onValueChange={(categories) => onFilterChange({ ...filter, categories })}
+        className="flex-wrap justify-end"
+      >
+        {specOptions(ornaments, "category").map(({ value, label }) => (
+          <ToggleGroupItem key={value} value={value} className={chipClassName}>
+            {label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <ToggleGroup
+        type="multiple"
+        aria-label={t("filters.finish")}
+        value={filter.finishes}
+        onValueChange={(finishes) => onFilterChange({ ...filter, finishes })}
+        className="flex-wrap justify-end"
+      >
+        {specOptions(ornaments, "finish").map(({ value, label }) => (
+          <ToggleGroupItem key={value} value={value} className={chipClassName}>
+            {label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {isActive && (
+        <div className="flex items-center gap-3 font-mono text-[10px] uppercase tracking-widest text-muted-foreground">
+          <span aria-live="polite">
+            {formatNumber(matchCount)} / {formatNumber(ornaments.length)}
+          </span>
+          <ToggleGroup
+            type="single"
+            aria-label={t("filters.nonMatching")}
+            value={mode}
+            onValueChange={(value) => value && onModeChange(value as FilterMode)}
+          >
+            <ToggleGroupItem value="dim" className={chipClassName}>
+              {t("filters.dim")}
+            </ToggleGroupItem>
+            <ToggleGroupItem value="hide" className={chipClassName}>
+              {t("filters.hide")}
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <button onClick={() => onFilterChange(emptyCatalogFilter)} className="hover:text-accent">
+            {t("filters.reset")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import { Component, type ErrorInfo, type ReactNode } from "react";
+import { reportError, type ErrorReport } from "@/lib/error-reporting";
+
+interface ErrorBoundaryProps {
+  scope: ErrorReport["scope"];
+  context?: ErrorReport["context"];
+  /** Shown instead of the children; the function form gets a retry that renders them again. */
+  fallback: ReactNode | ((retry: () => void) => ReactNode);
+  /** Named in the report, e.g. "placeholder" or "error-state". */
+  recovery?: string;
+  /** Called after the report, e.g. to record a failed asset for later retry. */
+  onError?: (error: unknown) => void;
+  children: ReactNode;
+}
+
+/** Contains a render error to its subtree and reports it, instead of taking the page down. */
+export class ErrorBoundary extends Component<ErrorBoundaryProps, { hasError: boolean }> {
+  state = { hasError: false };
+
+  static getDerivedStateFromError() {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo) {
+    reportError({
+      scope: this.props.scope,
+      recovery: this.props.recovery ?? "fallback",
+      error,
+      context: this.props.context,
+      componentStack: info.componentStack ?? undefined,
+    });
+    this.props.onError?.(error);
+  }
+
+  retry = () => this.setState({ hasError: false });
+
+  render() {
+    if (!this.state.hasError) return this.props.children;
+    const { fallback } = this.props;
+    return typeof fallback === "function" ? fallback(this.retry) : fallback;
+  }
+}
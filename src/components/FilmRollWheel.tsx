@@ -1,138 +1,324 @@
-import { useRef, useState, useEffect, Suspense } from "react";
-import { Canvas, useFrame, useThree } from "@react-three/fiber";
-import { OrbitControls, PerspectiveCamera, Environment, Html, useTexture } from "@react-three/drei";
+import { useRef, useState, useEffect, useMemo, Suspense, type KeyboardEvent } from "react";
+import { Canvas, useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
+import { PerspectiveCamera, Environment, Html, PerformanceMonitor, useTexture } from "@react-three/drei";
 import * as THREE from "three";
-import grcOrnament from "@/assets/grc-ornament.jpg";
-
-interface OrnamentData {
-  id: number;
-  name: string;
-  texture: string;
-  description: string;
-  specs: {
-    material: string;
-    dimensions: string;
-    weight: string;
-    finish: string;
-    category: string;
-    warranty: string;
-  };
-}
+import { Link } from "react-router-dom";
+import { BookOpen, Columns3 } from "lucide-react";
+import { CatalogFilters, type FilterMode } from "@/components/CatalogFilters";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { FinishConfigurator } from "@/components/FinishConfigurator";
+import { InquiryDialog } from "@/components/InquiryDialog";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { MotionToggle } from "@/components/MotionToggle";
+import { OrnamentGallery } from "@/components/OrnamentGallery";
+import { OrnamentCarousel } from "@/components/OrnamentCarousel";
+import { OrnamentListbox } from "@/components/OrnamentListbox";
+import { OrnamentModelViewer } from "@/components/OrnamentModelViewer";
+import { OrnamentSearch } from "@/components/OrnamentSearch";
+import { QuoteBasket } from "@/components/QuoteBasket";
+import { ReliefSurface } from "@/components/ReliefSurface";
+import { SceneLoadingOverlay } from "@/components/SceneLoadingOverlay";
+import { ScenePresetPicker } from "@/components/ScenePresetPicker";
+import { UnitSystemToggle } from "@/components/UnitSystemToggle";
+import { Drawer, DrawerContent, DrawerTitle } from "@/components/ui/drawer";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { basket } from "@/hooks/use-basket";
+import { useCatalog } from "@/hooks/use-catalog";
+import { MAX_COMPARE, useCompare } from "@/hooks/use-compare";
+import { useI18n } from "@/hooks/use-i18n";
+import { useLowMotion } from "@/hooks/use-low-motion";
+import { useMeasureFormat } from "@/hooks/use-unit-system";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useIsPortrait } from "@/hooks/use-is-portrait";
+import { useOnScreen } from "@/hooks/use-on-screen";
+import { useScenePreset } from "@/hooks/use-scene-preset";
+import { reportTextureFailure, retryTextures, useTextureFailures } from "@/hooks/use-texture-failures";
+import { useWheelControls } from "@/hooks/use-wheel-controls";
+import { useToast } from "@/hooks/use-toast";
+import { useWebGL } from "@/hooks/use-webgl";
+import {
+  emptyCatalogFilter,
+  isCatalogFilterActive,
+  matchesCatalogFilter,
+  reliefDepthRatio,
+  MISSING_TEXTURE,
+  type CatalogFilter,
+  type OrnamentData,
+} from "@/lib/catalog";
+import {
+  defaultConfiguration,
+  describeConfiguration,
+  finishMaterial,
+  isSameConfiguration,
+  type FinishMaterial,
+  type OrnamentConfiguration,
+} from "@/lib/configurator";
+import {
+  initialRenderQuality,
+  lowerQuality,
+  raiseQuality,
+  renderQualitySettings,
+  type RenderQuality,
+  type RenderQualitySettings,
+} from "@/lib/render-quality";
+import { groupSpecFields, presentSpecFields, specLabel, specValue } from "@/lib/spec-fields";
+import { scenePresetSettings, type ScenePresetSettings } from "@/lib/scene-presets";
+import {
+  cardStepAngle,
+  frontCardIndex,
+  frontSlotPosition,
+  portraitWheelOverrides,
+  resolveWheelConfig,
+  type Vec3,
+  type WheelConfig,
+  type WheelConfigOverrides,
+} from "@/lib/wheel-config";
 
-const WHEEL_RADIUS = 8;
-
-const ornamentData: OrnamentData[] = Array.from({ length: 12 }, (_, i) => ({
-  id: i + 1,
-  name: `Ornamen ${i + 1}`,
-  texture: grcOrnament,
-  description: `Ornamen GRC premium dengan desain klasik yang elegan. Dibuat dari material Glass Fiber Reinforced Concrete berkualitas tinggi dengan presisi tinggi. Cocok untuk dekorasi eksterior maupun interior bangunan modern dan klasik.`,
-  specs: {
-    material: "Glass Fiber Reinforced Concrete",
-    dimensions: `${60 + i * 5}cm × ${40 + i * 3}cm × ${8 + i}cm`,
-    weight: `${12 + i * 2} kg`,
-    finish: i % 2 === 0 ? "Natural Stone" : "Painted Finish",
-    category: i % 3 === 0 ? "Exterior" : i % 3 === 1 ? "Interior" : "Universal",
-    warranty: "10 tahun",
-  },
-}));
+// Pointer travel (px) beyond which a press counts as a drag rather than a card click
+const CLICK_DRAG_TOLERANCE = 6;
+// Cards skipped by PageUp / PageDown
+const PAGE_STEP = 3;
+// Cards on each side of the front one whose photos are loaded ahead of time
+const PRELOAD_RADIUS = 3;
+// Face shown until a card's photo has loaded
+const CARD_PLACEHOLDER_COLOR = "#2a2a3a";
 
 interface CardProps {
   data: OrnamentData;
   angle: number;
   radius: number;
+  size: WheelConfig["card"];
+  /** In-plane rotation that keeps the card upright once the wheel is turned onto its axis. */
+  roll: number;
   isSelected: boolean;
+  isFocused: boolean;
+  /** Faded out because it does not match the active catalog filter. */
+  isDimmed: boolean;
+  /** Photo requested; cards far from the front keep a plain face until the wheel brings them near. */
+  isTextured: boolean;
+  /** Finish picked in the configurator; only the selected card has one. */
+  finish?: FinishMaterial;
+  /** Drawn with frame, glow and label; far-away cards skip them at lower render quality. */
+  isDetailed: boolean;
+  /** Relief mesh resolution from the render quality; 0 shows the flat photo only. */
+  reliefSegments: number;
+  /** Face shading from the render quality. */
+  material: RenderQualitySettings["cardMaterial"];
   onClick: () => void;
 }
 
-function Card({ data, angle, radius, isSelected, onClick }: CardProps) {
-  const meshRef = useRef<THREE.Mesh>(null);
-  const texture = useTexture(data.texture);
+type CardFaceProps = Pick<CardProps, "isSelected" | "isDimmed" | "finish">;
+
+const cardFaceMaterial = ({ isSelected, isDimmed, finish }: CardFaceProps) => ({
+  metalness: 0.1,
+  roughness: 0.5,
+  ...finish,
+  emissive: isSelected ? "#00aaff" : "#000000",
+  emissiveIntensity: isSelected ? 0.2 : 0,
+  side: THREE.DoubleSide,
+  transparent: isDimmed,
+  opacity: isDimmed ? 0.2 : 1,
+});
+
+type CardFaceMaterialProps = ReturnType<typeof cardFaceMaterial> & {
+  kind: CardProps["material"];
+  map?: THREE.Texture;
+  color?: string;
+};
+
+function CardFaceMaterial({ kind, ...props }: CardFaceMaterialProps) {
+  if (kind === "lambert") {
+    // Lambert has no metalness or roughness
+    const { metalness, roughness, ...lambert } = props;
+    return <meshLambertMaterial {...lambert} />;
+  }
+  return <meshStandardMaterial {...props} />;
+}
+
+function CardPhotoMaterial({ url, kind, ...face }: CardFaceProps & { url: string; kind: CardProps["material"] }) {
+  const texture = useTexture(url);
 
   texture.wrapS = THREE.RepeatWrapping;
   texture.wrapT = THREE.RepeatWrapping;
 
+  return <CardFaceMaterial kind={kind} map={texture} {...cardFaceMaterial(face)} />;
+}
+
+function Card({
+  data,
+  angle,
+  radius,
+  size,
+  roll,
+  isSelected,
+  isFocused,
+  isDimmed,
+  isTextured,
+  finish,
+  isDetailed,
+  reliefSegments,
+  material,
+  onClick,
+}: CardProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const { attempt } = useTextureFailures();
+  const face = { isSelected, isDimmed, finish };
+  const placeholder = <CardFaceMaterial kind={material} {...cardFaceMaterial(face)} color={CARD_PLACEHOLDER_COLOR} />;
+  const missingPhoto = (
+    <Suspense fallback={placeholder}>
+      <CardPhotoMaterial url={MISSING_TEXTURE} kind={material} {...face} />
+    </Suspense>
+  );
+
   // posisi dasar pada wheel
   const y = Math.sin(angle) * radius;
   const z = Math.cos(angle) * radius;
 
-  // OFFSET untuk mendorong belakang ke kanan
-  // misal: card terakhir (belakang) ada di z + 12
-  const offsetX = data.id === ornamentData.length ? 12 : 0;
-
   const rotationX = -angle;
 
   return (
-    <group position={[offsetX, y, z]} rotation={[rotationX, 0, 0]}>
-      {/* Card frame */}
-      <mesh position={[0, 0, 0.1]}>
-        <boxGeometry args={[4, 2.8, 0.05]} />
-        <meshStandardMaterial
-          color={isSelected ? "#00ffff" : "#1a1a2e"}
-          metalness={0.9}
-          roughness={0.1}
-          emissive={isSelected ? "#00ffff" : "#0a0a15"}
-          emissiveIntensity={isSelected ? 0.3 : 0.1}
-        />
-      </mesh>
+    <group position={[0, y, z]} rotation={[rotationX, 0, 0]}>
+      <group rotation={[0, 0, roll]}>
+        {/* Card frame */}
+        {isDetailed && (
+          <mesh position={[0, 0, 0.1]}>
+            <boxGeometry args={[size.width + 0.2, size.height + 0.2, 0.05]} />
+            <meshStandardMaterial
+              color={isSelected ? "#00ffff" : "#1a1a2e"}
+              metalness={0.9}
+              roughness={0.1}
+              emissive={isSelected ? "#00ffff" : "#0a0a15"}
+              emissiveIntensity={isSelected ? 0.3 : 0.1}
+              transparent={isDimmed}
+              opacity={isDimmed ? 0.2 : 1}
+            />
+          </mesh>
+        )}
 
-      {/* Main card - landscape, texture on front (facing -Z, toward camera) */}
-      <mesh
-        ref={meshRef}
-        onClick={(e: ThreeEvent<MouseEvent>) => {
-          e.stopPropagation();
-          onClick();
-        }}
-      >
-        <boxGeometry args={[3.8, 2.6, 0.15]} />
-        <meshStandardMaterial
-      map={texture}
-      metalness={0.1}
-      roughness={0.5}
-      emissive={isSelected ? "#00aaff" : "#000000"}
-      emissiveIntensity={isSelected ? 0.2 : 0}
-      side={THREE.DoubleSide}
-    />
-      </mesh>
+        {/* Main card - landscape, texture on front (facing -Z, toward camera) */}
+        <mesh
+          ref={meshRef}
+          onClick={(e: ThreeEvent<MouseEvent>) => {
+            e.stopPropagation();
+            if (e.delta > CLICK_DRAG_TOLERANCE) return;
+            onClick();
+          }}
+        >
+          <boxGeometry args={[size.width, size.height, size.depth]} />
+          {/* Each card suspends on its own photo, so one slow image does not hold up the wheel */}
+          {isTextured ? (
+            <ErrorBoundary
+              key={attempt}
+              scope="texture"
+              context={{ ornamentId: data.id, urls: [data.texture] }}
+              recovery="placeholder"
+              onError={() => reportTextureFailure([data.texture])}
+              fallback={missingPhoto}
+            >
+              <Suspense fallback={placeholder}>
+                <CardPhotoMaterial url={data.texture} kind={material} {...face} />
+              </Suspense>
+            </ErrorBoundary>
+          ) : (
+            placeholder
+          )}
+        </mesh>
 
-      {/* Neon edge glow - front side */}
-      <mesh position={[0, 0, 0.09]}>
-        <boxGeometry args={[3.9, 2.7, 0.01]} />
-        <meshBasicMaterial
-          color={isSelected ? "#00ffff" : "#334455"}
-          transparent
-          opacity={isSelected ? 0.8 : 0.3}
-        />
-      </mesh>
+        {/* Carved relief over the photo side (facing the hub, i.e. the camera in the showcase slot) */}
+        {isTextured && data.relief && reliefSegments > 0 && (
+          <group position={[0, 0, -(size.depth / 2 + 0.005)]} rotation={[0, Math.PI, 0]}>
+            <ErrorBoundary
+              key={attempt}
+              scope="texture"
+              context={{ ornamentId: data.id, urls: [data.texture, data.relief.heightMap] }}
+              recovery="flat-card"
+              onError={() => reportTextureFailure([data.texture, data.relief.heightMap])}
+              fallback={null}
+            >
+              <Suspense fallback={null}>
+                <ReliefSurface
+                  texture={data.texture}
+                  heightMap={data.relief.heightMap}
+                  width={size.width}
+                  height={size.height}
+                  displacement={reliefDepthRatio(data) * size.width}
+                  segments={reliefSegments}
+                  material={cardFaceMaterial(face)}
+                />
+              </Suspense>
+            </ErrorBoundary>
+          </group>
+        )}
 
-      {/* Label */}
-      <Html
-        position={[0, -1.8, 0.2]}
-        center
-        distanceFactor={10}
-        style={{ pointerEvents: "none" }}
-      >
-        <div className="bg-black/60 backdrop-blur-md px-4 py-1.5 rounded-full border border-cyan-400/50 whitespace-nowrap shadow-lg">
-          <span className="text-xs font-mono font-bold text-cyan-400 uppercase tracking-widest">
-            ORN. {data.id}
-          </span>
-        </div>
-      </Html>
+        {isDetailed && (
+          <>
+            {/* Neon edge glow - front side */}
+            <mesh position={[0, 0, 0.09]}>
+              <boxGeometry args={[size.width + 0.1, size.height + 0.1, 0.01]} />
+              <meshBasicMaterial
+                color={isSelected ? "#00ffff" : "#334455"}
+                transparent
+                opacity={isSelected ? 0.8 : isDimmed ? 0.1 : 0.3}
+              />
+            </mesh>
+
+            {/* Label */}
+            <Html
+              position={[0, -(size.height / 2 + 0.5), 0.2]}
+              center
+              distanceFactor={10}
+              style={{ pointerEvents: "none" }}
+            >
+              <div
+                className={`bg-black/60 backdrop-blur-md px-4 py-1.5 rounded-full border whitespace-nowrap shadow-lg ${
+                  isFocused ? "border-white ring-2 ring-cyan-300" : "border-cyan-400/50"
+                } ${isDimmed ? "opacity-30" : ""}`}
+              >
+                <span className="text-xs font-mono font-bold text-cyan-400 uppercase tracking-widest">
+                  ORN. {data.id}
+                </span>
+              </div>
+            </Html>
+          </>
+        )}
+      </group>
     </group>
   );
 }
 
 function RoboticWheel({
+  ornaments,
+  config,
   selectedId,
+  focusedId,
+  dimmedIds,
+  texturedIds,
+  detailedIds,
+  renderedIds,
+  selectedFinish,
+  quality,
   onSelect,
   rotation,
 }: {
+  ornaments: OrnamentData[];
+  config: WheelConfig;
   selectedId: number | null;
+  focusedId: number | null;
+  dimmedIds: Set<number>;
+  texturedIds: Set<number>;
+  /** Cards drawn in full; null when every card is. */
+  detailedIds: Set<number> | null;
+  /** Cards drawn at all; null when every card is. */
+  renderedIds: Set<number> | null;
+  selectedFinish: FinishMaterial | null;
+  quality: RenderQualitySettings;
   onSelect: (id: number | null) => void;
   rotation: number;
 }) {
-  const radius = WHEEL_RADIUS;
-  const cardCount = ornamentData.length;
-  const angleStep = (Math.PI * 2) / cardCount;
+  const radius = config.radius;
+  const angleStep = cardStepAngle(config, ornaments.length);
+  const cardRoll = config.rotationAxis === "y" ? -Math.PI / 2 : 0;
 
   // NOTE: jangan set position di sini — kontrol posisi dari Scene
   return (
@@ -185,181 +371,701 @@ function RoboticWheel({
       </mesh>
 
       {/* Cards - positioned on the wheel */}
-      {ornamentData.map((data, index) => (
-        <Card
-          key={data.id}
-          data={data}
-          angle={index * angleStep}
-          radius={radius}
-          isSelected={selectedId === data.id}
-          onClick={() => onSelect(selectedId === data.id ? null : data.id)}
-        />
-      ))}
+      {ornaments.map((data, index) => {
+        if (renderedIds && !renderedIds.has(data.id) && selectedId !== data.id) return null;
+        const card: CardProps = {
+          data,
+          angle: index * angleStep,
+          radius,
+          size: config.card,
+          roll: cardRoll,
+          isSelected: selectedId === data.id,
+          isFocused: focusedId === data.id,
+          isDimmed: dimmedIds.has(data.id),
+          isTextured: texturedIds.has(data.id) || selectedId === data.id,
+          finish: selectedId === data.id && selectedFinish ? selectedFinish : undefined,
+          isDetailed: !detailedIds || detailedIds.has(data.id) || selectedId === data.id || focusedId === data.id,
+          reliefSegments: quality.reliefSegments,
+          material: quality.cardMaterial,
+          onClick: () => onSelect(selectedId === data.id ? null : data.id),
+        };
+        // A card that fails to render stays in its slot as a bare, clickable card
+        return (
+          <ErrorBoundary
+            key={data.id}
+            scope="card"
+            context={{ ornamentId: data.id }}
+            recovery="bare-card"
+            fallback={<Card {...card} isTextured={false} isDetailed={false} />}
+          >
+            <Card {...card} />
+          </ErrorBoundary>
+        );
+      })}
     </group>
   );
 }
 
 interface DetailPanelProps {
   data: OrnamentData | null;
+  configuration: OrnamentConfiguration | null;
+  onConfigurationChange: (configuration: OrnamentConfiguration) => void;
   onClose: () => void;
 }
 
-function DetailPanel({ data, onClose }: DetailPanelProps) {
+function DetailPanel({ data, configuration, onConfigurationChange, onClose }: DetailPanelProps) {
+  const { isAvailable: hasWebGL } = useWebGL();
+  const isMobile = useIsMobile();
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [isInquiryOpen, setIsInquiryOpen] = useState(false);
+  const [quantity, setQuantity] = useState(1);
+  const [mediaView, setMediaView] = useState<"photos" | "model">("photos");
+  const { toast } = useToast();
+  const { isPinned, isFull, toggle } = useCompare();
+  const { t } = useI18n();
+  const measure = useMeasureFormat();
+
+  // Open straight into the 3D view when there is a real model to inspect
+  useEffect(() => {
+    setMediaView(data?.model && hasWebGL ? "model" : "photos");
+  }, [data?.id, data?.model, hasWebGL]);
+
+  useEffect(() => {
+    setQuantity(1);
+    // Pindahkan fokus ke panel agar pembaca layar langsung membacakan detail
+    panelRef.current?.focus({ preventScroll: true });
+  }, [data?.id]);
+
   if (!data) return null;
 
-  return (
-    <div className="absolute left-6 md:left-12 top-24 bottom-8 w-[380px] md:w-[480px] z-30 animate-fade-in">
-      {/* Glassmorphism container - more transparent */}
-      <div className="h-full flex flex-col bg-black/30 backdrop-blur-xl border border-white/10 rounded-3xl shadow-[0_8px_64px_rgba(0,255,255,0.08)] overflow-hidden">
-        
-        {/* Header */}
-        <div className="p-6 border-b border-white/10">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-4">
-              <div className="w-3 h-3 bg-cyan-400 rounded-full animate-pulse shadow-[0_0_20px_rgba(0,255,255,0.6)]" />
-              <h2 className="text-2xl font-light text-white tracking-[0.3em] uppercase">
-                {data.name}
-              </h2>
-            </div>
+  const catalogConfiguration = defaultConfiguration(data);
+
+  const addToBasket = () => {
+    basket.add(data.id, quantity, configuration);
+    toast({
+      title: t("detail.addedToBasket"),
+      description: `${data.name} (${describeConfiguration(configuration, t)}) × ${quantity}`,
+    });
+  };
+
+  const pinned = isPinned(data.id);
+  const togglePinned = () => {
+    if (!pinned && isFull) {
+      toast({
+        title: t("compare.full", { max: MAX_COMPARE }),
+        description: t("compare.fullDescription"),
+      });
+      return;
+    }
+    toggle(data.id);
+  };
+
+  const content = (
+    <>
+      {/* Header */}
+      <div className="p-6 border-b border-white/10">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-3 h-3 bg-cyan-400 rounded-full animate-pulse shadow-[0_0_20px_rgba(0,255,255,0.6)]" />
+            <h2 id="detail-panel-title" className="text-2xl font-light text-white tracking-[0.3em] uppercase">
+              {data.name}
+            </h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={togglePinned}
+              aria-pressed={pinned}
+              aria-label={t("compare.toggle")}
+              title={t("compare.toggle")}
+              className={`w-10 h-10 rounded-full border flex items-center justify-center transition-all hover:scale-110 ${
+                pinned
+                  ? "bg-cyan-500/20 border-cyan-400/50 text-cyan-300"
+                  : "bg-white/5 hover:bg-white/10 border-white/20 text-white"
+              }`}
+            >
+              <Columns3 className="w-4 h-4" />
+            </button>
             <button
               onClick={onClose}
+              aria-label={t("detail.close")}
               className="w-10 h-10 rounded-full bg-white/5 hover:bg-white/10 border border-white/20 flex items-center justify-center transition-all hover:scale-110"
             >
               <span className="text-white text-xl font-light">×</span>
             </button>
           </div>
         </div>
+      </div>
 
-        {/* Image preview */}
-        <div className="p-6">
-          <div className="aspect-[16/10] rounded-2xl overflow-hidden border border-white/10 shadow-lg relative">
-            <img
-              src={data.texture}
-              alt={data.name}
-              className="w-full h-full object-cover"
-            />
-            <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent" />
-            <div className="absolute bottom-4 left-4">
-              <span className="px-3 py-1 bg-cyan-500/20 backdrop-blur-md rounded-full text-xs font-mono text-cyan-300 uppercase tracking-wider border border-cyan-400/30">
-                {data.specs.category}
-              </span>
-            </div>
-          </div>
-        </div>
+      {/* Photo gallery / 3D viewer */}
+      <div className="p-6 space-y-3">
+        {/* Without WebGL there is no 3D view to switch to */}
+        {hasWebGL && (
+          <ToggleGroup
+            type="single"
+            aria-label={t("media.label")}
+            value={mediaView}
+            onValueChange={(value) => value && setMediaView(value as "photos" | "model")}
+            className="justify-start gap-0 w-fit rounded-full border border-white/10 bg-white/5 p-0.5"
+          >
+            {(["photos", "model"] as const).map((view) => (
+              <ToggleGroupItem
+                key={view}
+                value={view}
+                className="h-6 px-3 rounded-full font-mono text-[10px] uppercase tracking-widest text-gray-400 hover:bg-white/10 hover:text-white data-[state=on]:bg-cyan-500/20 data-[state=on]:text-cyan-300"
+              >
+                {t(`media.${view}`)}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        )}
+        {mediaView === "model" && hasWebGL ? (
+          <OrnamentModelViewer ornament={data} />
+        ) : (
+          <OrnamentGallery ornament={data} />
+        )}
+      </div>
 
-        {/* Description */}
-        <div className="px-6 pb-4">
-          <p className="text-sm text-gray-300 leading-relaxed font-light">
-            {data.description}
-          </p>
-        </div>
+      {/* Description */}
+      <div className="px-6 pb-4">
+        <p className="text-sm text-gray-300 leading-relaxed font-light">
+          {data.description}
+        </p>
+      </div>
 
-        {/* Specifications grid */}
-        <div className="flex-1 px-6 pb-6 overflow-auto scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
-          <h3 className="text-xs font-mono font-bold text-cyan-400 uppercase tracking-[0.2em] mb-4 flex items-center gap-3">
-            <div className="w-8 h-[1px] bg-cyan-400/50" />
-            Spesifikasi Teknis
-            <div className="flex-1 h-[1px] bg-white/10" />
-          </h3>
-          
-          <div className="grid grid-cols-2 gap-3">
-            {Object.entries(data.specs).map(([key, value]) => (
-              <div
-                key={key}
-                className="p-4 rounded-xl bg-white/5 border border-white/5 hover:border-cyan-400/30 transition-colors"
-              >
-                <span className="text-[10px] font-mono text-gray-500 uppercase tracking-wider block mb-1">
-                  {key === "material" ? "Material" 
-                    : key === "dimensions" ? "Dimensi"
-                    : key === "weight" ? "Berat"
-                    : key === "finish" ? "Finishing"
-                    : key === "category" ? "Kategori"
-                    : "Garansi"}
-                </span>
-                <span className="text-sm font-medium text-white">
-                  {value}
-                </span>
+      {/* Finish configurator */}
+      <div className="px-6 pb-6">
+        <h3 className="text-xs font-mono font-bold text-cyan-400 uppercase tracking-[0.2em] mb-4 flex items-center gap-3">
+          <div className="w-8 h-[1px] bg-cyan-400/50" />
+          {t("configurator.title")}
+          <div className="flex-1 h-[1px] bg-white/10" />
+        </h3>
+        <FinishConfigurator
+          configuration={configuration}
+          onConfigurationChange={onConfigurationChange}
+          onReset={
+            isSameConfiguration(configuration, catalogConfiguration)
+              ? undefined
+              : () => onConfigurationChange(catalogConfiguration)
+          }
+        />
+      </div>
+
+      {/* Specifications grid */}
+      <div className="flex-1 px-6 pb-6 overflow-auto scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        <h3 className="text-xs font-mono font-bold text-cyan-400 uppercase tracking-[0.2em] mb-4 flex items-center gap-3">
+          <div className="w-8 h-[1px] bg-cyan-400/50" />
+          {t("detail.specs")}
+          <div className="flex-1 h-[1px] bg-white/10" />
+          <UnitSystemToggle />
+        </h3>
+        
+        <div className="space-y-5">
+          {groupSpecFields(presentSpecFields([data], measure)).map((group) => (
+            <section key={group.id} aria-label={t(group.label)}>
+              <h4 className="text-[10px] font-mono text-cyan-400/70 uppercase tracking-[0.2em] mb-2">
+                {t(group.label)}
+              </h4>
+              <div className="grid grid-cols-2 gap-3">
+                {group.fields.map((field) => (
+                  <div
+                    key={field.key}
+                    className="p-4 rounded-xl bg-white/5 border border-white/5 hover:border-cyan-400/30 transition-colors"
+                  >
+                    <span className="text-[10px] font-mono text-gray-500 uppercase tracking-wider flex items-center gap-1.5 mb-1">
+                      <field.icon className="w-3 h-3" aria-hidden />
+                      {specLabel(field, t)}
+                    </span>
+                    <span className="text-sm font-medium text-white">
+                      {specValue(field, data, measure)}
+                    </span>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
+            </section>
+          ))}
         </div>
+      </div>
 
-        {/* Footer actions */}
-        <div className="p-6 border-t border-white/10">
-          <button className="w-full py-3 rounded-xl bg-cyan-500/20 hover:bg-cyan-500/30 border border-cyan-400/30 text-cyan-300 font-mono text-sm uppercase tracking-wider transition-all hover:shadow-[0_0_30px_rgba(0,255,255,0.2)]">
-            Hubungi Kami
+      {/* Footer actions */}
+      <div className="p-6 border-t border-white/10 space-y-3">
+        <div className="flex gap-3">
+          <div className="flex items-center rounded-xl border border-white/10 bg-white/5">
+            <button
+              onClick={() => setQuantity((q) => Math.max(1, q - 1))}
+              aria-label={t("detail.decrease")}
+              className="w-9 h-full text-white/70 hover:text-white"
+            >
+              −
+            </button>
+            <span className="w-8 text-center text-sm font-mono text-white tabular-nums">{quantity}</span>
+            <button
+              onClick={() => setQuantity((q) => q + 1)}
+              aria-label={t("detail.increase")}
+              className="w-9 h-full text-white/70 hover:text-white"
+            >
+              +
+            </button>
+          </div>
+          <button
+            onClick={addToBasket}
+            className="flex-1 py-3 rounded-xl bg-white/5 hover:bg-white/10 border border-white/20 text-white/80 font-mono text-sm uppercase tracking-wider transition-all"
+          >
+            {t("detail.addToBasket")}
           </button>
         </div>
+        <button
+          onClick={() => setIsInquiryOpen(true)}
+          className="w-full py-3 rounded-xl bg-cyan-500/20 hover:bg-cyan-500/30 border border-cyan-400/30 text-cyan-300 font-mono text-sm uppercase tracking-wider transition-all hover:shadow-[0_0_30px_rgba(0,255,255,0.2)]"
+        >
+          {t("detail.contact")}
+        </button>
+      </div>
+
+      <InquiryDialog
+        ornament={data}
+        configuration={configuration}
+        open={isInquiryOpen}
+        onOpenChange={setIsInquiryOpen}
+      />
+    </>
+  );
+
+  // Di ponsel panel menjadi drawer bawah agar wheel tetap terlihat di atasnya
+  if (isMobile) {
+    return (
+      <Drawer open modal={false} shouldScaleBackground={false} onOpenChange={(open) => !open && onClose()}>
+        <DrawerContent className="max-h-[60vh] bg-[#0c0c16]/95 backdrop-blur-xl border-white/10">
+          <DrawerTitle className="sr-only">{data.name}</DrawerTitle>
+          <div className="flex flex-col overflow-y-auto">{content}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <div
+      ref={panelRef}
+      role="region"
+      aria-labelledby="detail-panel-title"
+      tabIndex={-1}
+      className="absolute left-6 md:left-12 top-24 bottom-8 w-[380px] md:w-[480px] z-30 animate-fade-in focus:outline-none"
+    >
+      {/* Glassmorphism container - more transparent */}
+      <div className="h-full flex flex-col bg-black/30 backdrop-blur-xl border border-white/10 rounded-3xl shadow-[0_8px_64px_rgba(0,255,255,0.08)] overflow-hidden">
+        {content}
+      </div>
+    </div>
+  );
+}
+
+// Slots of the skeleton wheel, front card in the middle
+const SKELETON_SLOTS = [-2, -1, 0, 1, 2];
+
+/** Stand-in for the wheel while the catalog loads: the front card and its neighbours curving away. */
+function WheelSkeleton() {
+  const { t } = useI18n();
+  const { isLowMotion } = useLowMotion();
+  return (
+    <div className="absolute inset-0 flex items-center justify-center overflow-hidden bg-[#080810]">
+      <div role="status" className="relative h-40 w-64 md:h-48 md:w-80">
+        <span className="sr-only">{t("app.loading")}</span>
+        {SKELETON_SLOTS.map((slot) => (
+          <Skeleton
+            key={slot}
+            aria-hidden
+            className={`absolute inset-0 rounded-xl border border-white/10 bg-white/10 ${isLowMotion ? "animate-none" : ""}`}
+            style={{
+              transform: `translate(${slot * slot * 12}px, ${slot * 115}%) scale(${1 - Math.abs(slot) * 0.15})`,
+              opacity: 1 - Math.abs(slot) * 0.35,
+            }}
+          />
+        ))}
       </div>
     </div>
   );
 }
 
-function LoadingFallback() {
+interface ErrorStateProps {
+  message: string;
+  onRetry: () => void;
+  /** Second way out, e.g. the flat carousel when the 3D scene keeps failing. */
+  alternative?: { label: string; onSelect: () => void };
+}
+
+function ErrorState({ message, onRetry, alternative }: ErrorStateProps) {
+  const { t } = useI18n();
   return (
-    <div className="absolute inset-0 flex items-center justify-center bg-[#080810]">
+    <div role="alert" className="absolute inset-0 flex items-center justify-center bg-[#080810]">
       <div className="flex flex-col items-center gap-4">
-        <div className="w-16 h-16 border-2 border-accent/30 border-t-accent rounded-full animate-spin" />
-        <p className="text-muted-foreground font-mono text-sm tracking-wider">LOADING...</p>
+        <p className="text-muted-foreground font-mono text-sm tracking-wider">{message}</p>
+        <button
+          onClick={onRetry}
+          className="px-6 py-2.5 rounded-full border border-accent/50 text-accent font-mono text-xs uppercase tracking-widest hover:bg-accent/20 transition-all"
+        >
+          {t("app.retry")}
+        </button>
+        {alternative && (
+          <button
+            onClick={alternative.onSelect}
+            className="font-mono text-xs uppercase tracking-widest text-muted-foreground hover:text-accent transition-colors"
+          >
+            {alternative.label}
+          </button>
+        )}
       </div>
     </div>
   );
 }
 
-function Scene({ selectedId, onSelect, isAutoPlaying }) {
+/** Ids of the cards within `range` of the front card; null when that covers the whole wheel. */
+function idsAroundFront(ornaments: OrnamentData[], frontIndex: number | null, range: number) {
+  const count = ornaments.length;
+  if (frontIndex === null || range * 2 + 1 >= count) return null;
+  const ids = new Set<number>();
+  for (let offset = -range; offset <= range; offset++) {
+    ids.add(ornaments[(((frontIndex + offset) % count) + count) % count].id);
+  }
+  return ids;
+}
+
+interface SceneProps {
+  ornaments: OrnamentData[];
+  config: WheelConfig;
+  selectedId: number | null;
+  /** Card the wheel turns to the front: the selection, or the keyboard focus. */
+  activeIndex: number | null;
+  /** Bumped whenever the active card should be turned to the front, even if it did not change. */
+  focusRequest: number;
+  /** Card highlighted as keyboard-focused, if any. */
+  focusedId: number | null;
+  dimmedIds: Set<number>;
+  selectedFinish: FinishMaterial | null;
+  onSelect: (id: number | null) => void;
+  isAutoPlaying: boolean;
+  isLowMotion: boolean;
+  quality: RenderQualitySettings;
+}
+
+function Scene({
+  ornaments,
+  config,
+  selectedId,
+  activeIndex,
+  focusRequest,
+  focusedId,
+  dimmedIds,
+  selectedFinish,
+  onSelect,
+  isAutoPlaying,
+  isLowMotion,
+  quality,
+}: SceneProps) {
   const wheelPivot = useRef<THREE.Group>(null);
   const { camera } = useThree();
-  const CAMERA_POS = [0, 0.5, 12];
-  const rotationSpeed = isAutoPlaying ? 0.01 : 0;
+  const stepAngle = cardStepAngle(config, ornaments.length);
+  const frontIndex = useRef<number | null>(null);
+  const [frontIndexState, setFrontIndexState] = useState<number | null>(null);
+  // Ids whose photos have been requested; once loaded a card keeps its photo
+  const [texturedIds, setTexturedIds] = useState<Set<number>>(() => new Set());
 
   useEffect(() => {
-    camera.position.set(...CAMERA_POS);
-    camera.lookAt(0, 0, 0);
-  }, []);
+    frontIndex.current = null;
+  }, [ornaments]);
 
+  const detailedIds = useMemo(
+    () => idsAroundFront(ornaments, frontIndexState, quality.detailedCards),
+    [ornaments, frontIndexState, quality.detailedCards],
+  );
+  const renderedIds = useMemo(
+    () => idsAroundFront(ornaments, frontIndexState, quality.renderedCards),
+    [ornaments, frontIndexState, quality.renderedCards],
+  );
+
+  // Load photos for the cards around whichever card is currently at the front
   useFrame(() => {
-    if (wheelPivot.current) {
-      wheelPivot.current.rotation.x -= rotationSpeed; // belakang → depan
+    const count = ornaments.length;
+    if (!wheelPivot.current || count === 0) return;
+    const rotation = wheelPivot.current.rotation[config.rotationAxis];
+    const index = frontCardIndex(rotation, stepAngle, count, config.frontAngle);
+    if (index === frontIndex.current) return;
+    frontIndex.current = index;
+    setFrontIndexState(index);
+
+    const nearby: number[] = [];
+    for (let offset = -PRELOAD_RADIUS; offset <= PRELOAD_RADIUS; offset++) {
+      nearby.push(ornaments[(((index + offset) % count) + count) % count].id);
     }
+    setTexturedIds((ids) => (nearby.every((id) => ids.has(id)) ? ids : new Set([...ids, ...nearby])));
   });
 
+  useEffect(() => {
+    camera.position.set(...config.camera.position);
+    camera.lookAt(...config.camera.lookAt);
+  }, [camera, config.camera]);
+
+  // Klik, deep link, keyboard, maupun pilihan lain memutar card aktif ke depan kamera
+  useWheelControls(wheelPivot, {
+    stepAngle,
+    frontAngle: config.frontAngle,
+    axis: config.rotationAxis,
+    direction: config.direction,
+    isAutoPlaying,
+    focusIndex: activeIndex,
+    focusRequest,
+    isLowMotion,
+  });
+
+  // Wheel dibangun mengelilingi sumbu X; untuk sumbu Y seluruhnya diputar 90° (X → Y)
+  const axisRotation: [number, number, number] = config.rotationAxis === "y" ? [0, 0, Math.PI / 2] : [0, 0, 0];
+
   return (
-    // Pivot digeser ke kanan agar belakang terdorong ke kanan
-    <group position={[12, 0, 0]}> 
-      <group ref={wheelPivot} position={[0, 0, 0]}>
-        <RoboticWheel
-          selectedId={selectedId}
-          onSelect={onSelect}
-          rotation={0} // rotasi tetap
-        />
+    <group position={config.pivotOffset}>
+      <group ref={wheelPivot}>
+        <group rotation={axisRotation}>
+          <RoboticWheel
+            ornaments={ornaments}
+            config={config}
+            selectedId={selectedId}
+            focusedId={focusedId}
+            dimmedIds={dimmedIds}
+            texturedIds={texturedIds}
+            detailedIds={detailedIds}
+            renderedIds={renderedIds}
+            selectedFinish={selectedFinish}
+            quality={quality}
+            onSelect={onSelect}
+            rotation={0} // rotasi tetap
+          />
+        </group>
       </group>
     </group>
   );
 }
 
+/** Backdrop, environment reflections and lights of one scene preset; spot lights aim at `focus`. */
+function SceneLighting({
+  settings,
+  focus,
+  environmentMap,
+}: {
+  settings: ScenePresetSettings;
+  focus: Vec3;
+  /** Off at low render quality: the lights alone carry the scene. */
+  environmentMap: boolean;
+}) {
+  // In the scene graph so its world matrix stays current; a detached target keeps pointing at the origin
+  const [spotTarget] = useState(() => new THREE.Object3D());
+
+  return (
+    <>
+      <color attach="background" args={[settings.background]} />
+      <ambientLight color={settings.ambient.color} intensity={settings.ambient.intensity} />
+      <primitive object={spotTarget} position={focus} />
+      {settings.lights.map((light, index) =>
+        light.type === "spot" ? (
+          <spotLight
+            key={index}
+            position={[focus[0] + light.position[0], focus[1] + light.position[1], focus[2] + light.position[2]]}
+            target={spotTarget}
+            color={light.color}
+            intensity={light.intensity}
+            angle={light.angle}
+            penumbra={0.6}
+          />
+        ) : (
+          <directionalLight key={index} position={light.position} color={light.color} intensity={light.intensity} />
+        ),
+      )}
+      {/* The HDR comes from a CDN: while it loads, or if it cannot, the lights above carry the scene */}
+      {environmentMap && (
+        <ErrorBoundary key={settings.environment} scope="environment" recovery="lights-only" fallback={null}>
+          <Suspense fallback={null}>
+            <Environment preset={settings.environment} />
+          </Suspense>
+        </ErrorBoundary>
+      )}
+    </>
+  );
+}
+
 // Helper: Kamera lookAt tanpa error
-function CameraLookAt({ target }) {
+function CameraLookAt({ target }: { target: [number, number, number] }) {
   useFrame(({ camera }) => {
     camera.lookAt(...target);
   });
   return null;
 }
 
-export default function FilmRollWheel() {
-  const [selectedId, setSelectedId] = useState<number | null>(null);
-  const [isAutoPlaying, setIsAutoPlaying] = useState(true);
+interface FilmRollWheelProps {
+  /** Ornament whose details are open, or null when the panel is closed. */
+  selectedId: number | null;
+  /** `replace` is set while keyboard browsing switches the open panel: it should replace, not add, a history entry. */
+  onSelectedIdChange: (id: number | null, options?: { replace?: boolean }) => void;
+  /** Finish chosen for the selected ornament, or null for its catalog finish. */
+  configuration: OrnamentConfiguration | null;
+  onConfigurationChange: (configuration: OrnamentConfiguration) => void;
+  /** Wheel geometry and camera; anything omitted falls back to `defaultWheelConfig`. */
+  config?: WheelConfigOverrides;
+}
+
+export default function FilmRollWheel({
+  selectedId,
+  onSelectedIdChange,
+  configuration,
+  onConfigurationChange,
+  config,
+}: FilmRollWheelProps) {
+  const isMobile = useIsMobile();
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
+  // Framed by the canvas shape, not the screen width: an upright tablet needs the portrait camera too
+  const isPortrait = useIsPortrait(canvasContainerRef);
+  const wheelConfig = useMemo(
+    () => resolveWheelConfig(isPortrait ? portraitWheelOverrides : undefined, config),
+    [isPortrait, config],
+  );
+  const { isLowMotion } = useLowMotion();
+  const [isAutoPlaying, setIsAutoPlaying] = useState(selectedId === null && !isLowMotion);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  // Counts requests to show a card, so asking for the same one again still turns the wheel back to it
+  const [focusRequest, setFocusRequest] = useState(0);
+  const [isKeyboardNav, setIsKeyboardNav] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listboxRef = useRef<HTMLUListElement>(null);
+  // Nothing moves in a hidden tab or a scrolled-away canvas, so stop rendering it
+  const isCanvasOnScreen = useOnScreen(canvasContainerRef);
+  const [filter, setFilter] = useState<CatalogFilter>(emptyCatalogFilter);
+  const [filterMode, setFilterMode] = useState<FilterMode>("dim");
+  const { data: ornaments = [], isLoading, isError, refetch } = useCatalog();
+  const { ids: compareIds } = useCompare();
+  const compareCount = compareIds.length;
+  const { t, formatNumber } = useI18n();
+  const { isAvailable: hasWebGL, reportContextLost, retry: retryWebGL } = useWebGL();
+  const { preset: scenePreset } = useScenePreset();
+  // Set when 3D ran but was switched off (lost context, or a broken scene the user gave up on),
+  // as opposed to WebGL never being there; the carousel then offers a way back
+  const [wasContextLost, setWasContextLost] = useState(false);
+  const showFlatView = () => {
+    setWasContextLost(true);
+    reportContextLost();
+  };
+  // Starts from a hardware guess, then follows the measured frame rate
+  const [quality, setQuality] = useState<RenderQuality>(initialRenderQuality);
+  const qualitySettings = renderQualitySettings[quality];
+
+  // "hide" removes non-matching cards so the rest re-space around the wheel; "dim" only fades them
+  const matchingIds = useMemo(
+    () => new Set(ornaments.filter((o) => matchesCatalogFilter(o, filter)).map((o) => o.id)),
+    [ornaments, filter],
+  );
+  const wheelOrnaments = useMemo(
+    () => (filterMode === "hide" ? ornaments.filter((o) => matchingIds.has(o.id)) : ornaments),
+    [ornaments, filterMode, matchingIds],
+  );
+  const dimmedIds = useMemo(
+    () =>
+      filterMode === "dim" && isCatalogFilterActive(filter)
+        ? new Set(ornaments.filter((o) => !matchingIds.has(o.id)).map((o) => o.id))
+        : new Set<number>(),
+    [ornaments, filter, filterMode, matchingIds],
+  );
 
   const selectedData = selectedId
-    ? ornamentData.find((o) => o.id === selectedId) || null
+    ? ornaments.find((o) => o.id === selectedId) || null
     : null;
+  const selectedConfiguration = selectedData ? configuration ?? defaultConfiguration(selectedData) : null;
+  const selectedFinish = selectedConfiguration ? finishMaterial(selectedConfiguration) : null;
+
+  useEffect(() => {
+    if (isLowMotion) setIsAutoPlaying(false);
+  }, [isLowMotion]);
 
-  const handleSelect = (id: number | null) => {
-    setSelectedId(id);
-    if (id) setIsAutoPlaying(false);
+  // Filtering re-orders the wheel, so a focused index no longer points at the same card
+  useEffect(() => {
+    setActiveIndex(null);
+  }, [wheelOrnaments]);
+
+  // Selection can also change from the URL (back/forward), not only from clicks
+  useEffect(() => {
+    if (selectedId === null) return;
+    setIsAutoPlaying(false);
+    const index = wheelOrnaments.findIndex((o) => o.id === selectedId);
+    if (index >= 0) focusCard(index);
+  }, [selectedId, wheelOrnaments]);
+
+  const focusCard = (index: number) => {
+    setActiveIndex(index);
+    setFocusRequest((request) => request + 1);
+  };
+
+  // Picking the card that is already selected changes nothing above; bring it back to the front anyway
+  const showCard = (id: number) => {
+    const index = wheelOrnaments.findIndex((o) => o.id === id);
+    if (id === selectedId && index >= 0) focusCard(index);
+    onSelectedIdChange(id);
+  };
+
+  const handleSearchSelect = (id: number) => {
+    if (!wheelOrnaments.some((o) => o.id === id)) setFilter(emptyCatalogFilter);
+    showCard(id);
+  };
+
+  const closePanel = () => {
+    onSelectedIdChange(null);
+    listboxRef.current?.focus({ preventScroll: true });
+  };
+
+  const navigateTo = (index: number) => {
+    focusCard(index);
+    setIsKeyboardNav(true);
+    setIsAutoPlaying(false);
+    // With the panel open, browsing switches the detail view along with the wheel
+    if (selectedId !== null) onSelectedIdChange(wheelOrnaments[index].id, { replace: true });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    // Already handled further down, e.g. arrow keys flipping through the photo carousel
+    if (e.defaultPrevented) return;
+    const target = e.target as HTMLElement;
+    // Keys typed into forms, or bubbling from portalled dialogs and sheets, are not wheel commands
+    if (!containerRef.current?.contains(target) || target.closest("input, textarea, select, [contenteditable]")) {
+      return;
+    }
+    const count = wheelOrnaments.length;
+    if (count === 0) return;
+
+    const steps: Record<string, number> = {
+      ArrowDown: 1,
+      ArrowRight: 1,
+      ArrowUp: -1,
+      ArrowLeft: -1,
+      PageDown: PAGE_STEP,
+      PageUp: -PAGE_STEP,
+    };
+
+    if (e.key in steps) {
+      e.preventDefault();
+      const step = steps[e.key];
+      const from = activeIndex ?? (step > 0 ? -1 : 0);
+      navigateTo((((from + step) % count) + count) % count);
+    } else if (e.key === "Home" || e.key === "End") {
+      e.preventDefault();
+      navigateTo(e.key === "Home" ? 0 : count - 1);
+    } else if ((e.key === "Enter" || e.key === " ") && target === listboxRef.current && activeIndex !== null) {
+      e.preventDefault();
+      onSelectedIdChange(wheelOrnaments[activeIndex].id);
+    } else if (e.key === "Escape" && selectedId !== null) {
+      e.preventDefault();
+      closePanel();
+    }
   };
 
   return (
-    <div className="relative w-full h-screen bg-[#080810] overflow-hidden">
+    <div
+      ref={containerRef}
+      onKeyDown={handleKeyDown}
+      onPointerDown={() => setIsKeyboardNav(false)}
+      className="relative w-full h-screen bg-[#080810] overflow-hidden"
+    >
       {/* Background effects */}
       <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_right,_rgba(0,255,255,0.05)_0%,_transparent_60%)] pointer-events-none z-0" />
       <div className="absolute inset-0 bg-[radial-gradient(circle_at_20%_80%,_rgba(0,136,255,0.03)_0%,_transparent_40%)] pointer-events-none z-0" />
@@ -370,54 +1076,199 @@ export default function FilmRollWheel() {
           <div className="flex items-center gap-4">
             <div className="w-2 h-2 bg-accent rounded-full animate-pulse shadow-[0_0_15px_hsl(var(--accent))]" />
             <h1 className="text-lg md:text-xl font-light text-foreground tracking-[0.4em] uppercase">
-              GRC Ornaments
+              {t("app.title")}
             </h1>
           </div>
-          <button
-            onClick={() => setIsAutoPlaying(!isAutoPlaying)}
-            className={`px-6 py-2.5 rounded-full border transition-all font-mono text-xs uppercase tracking-widest ${
-              isAutoPlaying
-                ? "bg-accent/20 border-accent/50 text-accent shadow-[0_0_20px_rgba(0,255,255,0.2)]"
-                : "bg-background/20 border-accent/20 text-muted-foreground hover:border-accent/40"
-            }`}
-          >
-            {isAutoPlaying ? "◼ PAUSE" : "▶ PLAY"}
-          </button>
+          <div className="flex items-center gap-3">
+            <LanguageSwitcher />
+            <MotionToggle />
+            {hasWebGL && <ScenePresetPicker />}
+            <OrnamentSearch ornaments={ornaments} onSelect={handleSearchSelect} />
+            <QuoteBasket ornaments={ornaments} />
+            <Link
+              to="/story"
+              aria-label={t("story.open")}
+              title={t("story.open")}
+              className="w-10 h-10 rounded-full border border-accent/20 bg-background/20 text-muted-foreground hover:border-accent/40 flex items-center justify-center transition-all"
+            >
+              <BookOpen className="w-4 h-4" />
+            </Link>
+            <Link
+              to="/compare"
+              aria-label={t("compare.open", { count: compareCount })}
+              className="relative w-10 h-10 rounded-full border border-accent/20 bg-background/20 text-muted-foreground hover:border-accent/40 flex items-center justify-center transition-all"
+            >
+              <Columns3 className="w-4 h-4" />
+              {compareCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-accent text-accent-foreground text-[10px] font-mono font-bold flex items-center justify-center">
+                  {formatNumber(compareCount)}
+                </span>
+              )}
+            </Link>
+            {hasWebGL && (
+              <button
+                onClick={() => setIsAutoPlaying(!isAutoPlaying)}
+                disabled={isLowMotion}
+                title={isLowMotion ? t("app.autoPlayOff") : undefined}
+                className={`px-6 py-2.5 rounded-full border transition-all font-mono text-xs uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed ${
+                  isAutoPlaying
+                    ? "bg-accent/20 border-accent/50 text-accent shadow-[0_0_20px_rgba(0,255,255,0.2)]"
+                    : "bg-background/20 border-accent/20 text-muted-foreground hover:border-accent/40"
+                }`}
+              >
+                {isAutoPlaying ? t("app.pause") : t("app.play")}
+              </button>
+            )}
+          </div>
         </div>
       </div>
 
       {/* Detail Panel - left side glassmorphism */}
-      <DetailPanel data={selectedData} onClose={() => setSelectedId(null)} />
+      <DetailPanel
+        data={selectedData}
+        configuration={selectedConfiguration}
+        onConfigurationChange={onConfigurationChange}
+        onClose={closePanel}
+      />
+
+      <OrnamentListbox
+        ref={listboxRef}
+        ornaments={wheelOrnaments}
+        activeIndex={activeIndex}
+        selectedId={selectedId}
+        onOptionClick={(index) => showCard(wheelOrnaments[index].id)}
+      />
 
       {/* Instructions */}
-      {!selectedId && (
-        <div className="absolute bottom-8 left-12 z-20 animate-fade-in">
+      {!selectedId && hasWebGL && (
+        <div className="absolute bottom-8 left-6 md:left-12 z-20 animate-fade-in">
           <div className="bg-background/10 backdrop-blur-md px-6 py-3 rounded-full border border-accent/20">
             <p className="text-sm text-muted-foreground font-mono flex items-center gap-3 tracking-wider">
               <span className="w-2 h-2 bg-accent rounded-full animate-pulse" />
-              CLICK TO VIEW DETAILS
+              {wheelOrnaments.length === 0 && ornaments.length > 0
+                ? t("hint.noMatches")
+                : isKeyboardNav
+                  ? t("hint.keyboard")
+                  : isMobile
+                    ? t("hint.touch")
+                    : t("hint.pointer")}
             </p>
           </div>
         </div>
       )}
 
+      {/* Catalog filters */}
+      {ornaments.length > 0 && (
+        <div className="absolute top-20 right-6 md:top-auto md:bottom-8 md:right-12 z-20">
+          <CatalogFilters
+            ornaments={ornaments}
+            filter={filter}
+            onFilterChange={setFilter}
+            mode={filterMode}
+            onModeChange={setFilterMode}
+            matchCount={matchingIds.size}
+          />
+        </div>
+      )}
+
       {/* 3D Canvas */}
-      <div className="absolute inset-0 z-10">
-        <Suspense fallback={<LoadingFallback />}>
-          <Canvas
-  style={{ background: "#87CEEB" }} // sky blue
->
-  {/* Kamera */}
-  <PerspectiveCamera makeDefault position={[0, 2, 12]} fov={50} />
-
-  {/* Cahaya */}
-  <ambientLight intensity={0.8} />
-  <directionalLight position={[10, 10, 5]} intensity={1.2} />
-
-  <Scene selectedId={selectedId} onSelect={handleSelect} isAutoPlaying={isAutoPlaying} />
-</Canvas>
-
-        </Suspense>
+      <div ref={canvasContainerRef} className="absolute inset-0 z-10">
+        {isLoading ? (
+          <WheelSkeleton />
+        ) : isError ? (
+          <ErrorState message={t("app.catalogError")} onRetry={() => refetch()} />
+        ) : !hasWebGL ? (
+          <OrnamentCarousel
+            ornaments={wheelOrnaments}
+            selectedId={selectedId}
+            activeIndex={activeIndex}
+            dimmedIds={dimmedIds}
+            onSelect={onSelectedIdChange}
+            onRetry={
+              wasContextLost
+                ? () => {
+                    setWasContextLost(false);
+                    retryWebGL();
+                  }
+                : undefined
+            }
+          />
+        ) : (
+          <ErrorBoundary
+            scope="scene"
+            recovery="error-state"
+            fallback={(retry) => (
+              <ErrorState
+                message={t("app.sceneError")}
+                onRetry={() => {
+                  retryTextures();
+                  retry();
+                }}
+                alternative={{ label: t("app.flatView"), onSelect: showFlatView }}
+              />
+            )}
+          >
+            <Suspense fallback={<WheelSkeleton />}>
+              {/* touch-action none: vertical swipes rotate the wheel instead of scrolling the page */}
+              {/* Low motion renders only when something changes; off-screen it does not render at all */}
+              <Canvas
+                frameloop={!isCanvasOnScreen ? "never" : isLowMotion ? "demand" : "always"}
+                dpr={[1, qualitySettings.maxDpr]}
+                style={{ touchAction: "none" }}
+                onCreated={({ gl, get }) => {
+                  gl.domElement.addEventListener("webglcontextlost", (event) => {
+                    // Lets the browser restore the context, for when the user asks for 3D again
+                    event.preventDefault();
+                    // R3F drops the context itself 500 ms after the canvas unmounts: not a failure
+                    if (!get().internal.active) return;
+                    showFlatView();
+                  });
+                }}
+              >
+                {/* Frame times only mean something while rendering continuously */}
+                {!isLowMotion && (
+                  <PerformanceMonitor
+                    onDecline={() => setQuality(lowerQuality)}
+                    onIncline={() => setQuality(raiseQuality)}
+                    flipflops={3}
+                    onFallback={() => setQuality("low")}
+                  />
+                )}
+
+                {/* Kamera */}
+                <PerspectiveCamera
+                  makeDefault
+                  position={wheelConfig.camera.position}
+                  fov={wheelConfig.camera.fov}
+                />
+
+                {/* Cahaya */}
+                <SceneLighting
+                  settings={scenePresetSettings[scenePreset]}
+                  focus={frontSlotPosition(wheelConfig)}
+                  environmentMap={qualitySettings.environmentMap}
+                />
+
+                <Scene
+                  ornaments={wheelOrnaments}
+                  config={wheelConfig}
+                  selectedId={selectedId}
+                  activeIndex={activeIndex}
+                  focusRequest={focusRequest}
+                  focusedId={isKeyboardNav && activeIndex !== null ? wheelOrnaments[activeIndex]?.id ?? null : null}
+                  dimmedIds={dimmedIds}
+                  selectedFinish={selectedFinish}
+                  onSelect={onSelectedIdChange}
+                  isAutoPlaying={isAutoPlaying}
+                  isLowMotion={isLowMotion}
+                  quality={qualitySettings}
+                />
+              </Canvas>
+            </Suspense>
+          </ErrorBoundary>
+        )}
+        {/* Texture progress and failures; in-scene loading never reaches the Suspense above */}
+        {hasWebGL && !isLoading && !isError && <SceneLoadingOverlay />}
       </div>
     </div>
   );
@@ -0,0 +1,80 @@
+import { Check } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  finishLabel,
+  finishTypes,
+  paintColorLabel,
+  paintColors,
+  withFinish,
+  type FinishType,
+  type OrnamentConfiguration,
+  type PaintColor,
+} from "@/lib/configurator";
+
+interface FinishConfiguratorProps {
+  configuration: OrnamentConfiguration;
+  onConfigurationChange: (configuration: OrnamentConfiguration) => void;
+  /** Shown when the configuration differs from the ornament's catalog finish. */
+  onReset?: () => void;
+}
+
+/** Finish type and paint colour picker for the selected ornament. */
+export const FinishConfigurator = ({ configuration, onConfigurationChange, onReset }: FinishConfiguratorProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <ToggleGroup
+          type="single"
+          aria-label={t("configurator.finishLabel")}
+          value={configuration.finish}
+          onValueChange={(value) => value && onConfigurationChange(withFinish(configuration, value as FinishType))}
+          className="justify-start gap-0 w-fit rounded-full border border-white/10 bg-white/5 p-0.5"
+        >
+          {finishTypes.map((finish) => (
+            <ToggleGroupItem
+              key={finish}
+              value={finish}
+              className="h-7 px-3 rounded-full font-mono text-[10px] uppercase tracking-widest text-gray-400 hover:bg-white/10 hover:text-white data-[state=on]:bg-cyan-500/20 data-[state=on]:text-cyan-300"
+            >
+              {t(finishLabel(finish))}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        {onReset && (
+          <button
+            onClick={onReset}
+            className="font-mono text-[10px] uppercase tracking-widest text-gray-500 hover:text-white transition-colors"
+          >
+            {t("configurator.reset")}
+          </button>
+        )}
+      </div>
+
+      {configuration.finish === "painted" && (
+        <ToggleGroup
+          type="single"
+          aria-label={t("configurator.colorLabel")}
+          value={configuration.color}
+          onValueChange={(value) => value && onConfigurationChange({ finish: "painted", color: value as PaintColor })}
+          className="justify-start flex-wrap gap-2"
+        >
+          {paintColors.map((paint) => (
+            <ToggleGroupItem
+              key={paint.id}
+              value={paint.id}
+              aria-label={t(paintColorLabel(paint.id))}
+              title={t(paintColorLabel(paint.id))}
+              style={{ backgroundColor: paint.hex }}
+              className="group h-8 w-8 min-w-0 p-0 rounded-full border border-white/20 hover:scale-110 transition-transform data-[state=on]:ring-2 data-[state=on]:ring-cyan-400 data-[state=on]:ring-offset-2 data-[state=on]:ring-offset-black"
+            >
+              <Check className="w-4 h-4 text-black/60 opacity-0 group-data-[state=on]:opacity-100" />
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import { Fragment, useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useI18n } from "@/hooks/use-i18n";
+import { useMeasureFormat } from "@/hooks/use-unit-system";
+import { useToast } from "@/hooks/use-toast";
+import { weightKg, type OrnamentData } from "@/lib/catalog";
+import { reportError } from "@/lib/error-reporting";
+import { configurationKey, describeConfiguration, type OrnamentConfiguration } from "@/lib/configurator";
+import {
+  createInquiryContactSchema,
+  createQuantitySchema,
+  defaultInquiryAdapter,
+  toInquiryItem,
+  type InquiryAdapter,
+  type InquiryItem,
+  type InquiryReceipt,
+} from "@/lib/inquiry";
+import type { Translate } from "@/lib/i18n";
+import { specFields, specLabel, specValue } from "@/lib/spec-fields";
+import { formatMass } from "@/lib/units";
+
+const createInquiryFormSchema = (t: Translate) =>
+  createInquiryContactSchema(t).extend({ quantity: createQuantitySchema(t) });
+
+type InquiryFormValues = z.infer<ReturnType<typeof createInquiryFormSchema>>;
+
+const emptyValues: InquiryFormValues = {
+  quantity: 1,
+  projectLocation: "",
+  name: "",
+  email: "",
+  phone: "",
+  message: "",
+};
+
+interface InquiryDialogProps {
+  /** Single ornament; the form asks for its quantity. */
+  ornament?: OrnamentData;
+  /** Finish chosen for the single ornament; defaults to its catalog finish. */
+  configuration?: OrnamentConfiguration;
+  /** Several ornaments with quantities already chosen, e.g. from the quote basket. */
+  items?: InquiryItem[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted?: (receipt: InquiryReceipt) => void;
+  adapter?: InquiryAdapter;
+}
+
+export const InquiryDialog = ({
+  ornament,
+  configuration,
+  items,
+  open,
+  onOpenChange,
+  onSubmitted,
+  adapter = defaultInquiryAdapter,
+}: InquiryDialogProps) => {
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const measure = useMeasureFormat();
+  const isBasket = items !== undefined;
+  // Basket items carry their own quantities, so the quantity field is not validated there
+  const schema = useMemo(
+    () => (isBasket ? createInquiryContactSchema(t) : createInquiryFormSchema(t)),
+    [isBasket, t],
+  );
+  const form = useForm<InquiryFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: emptyValues,
+  });
+
+  // Start every inquiry from a clean form, keeping contact details the user already typed
+  useEffect(() => {
+    if (open) form.reset({ ...form.getValues(), quantity: 1, message: "" });
+  }, [open, form]);
+
+  const submission = useMutation({
+    mutationFn: ({ quantity, ...contact }: InquiryFormValues) =>
+      adapter.submit({ ...contact, items: items ?? [toInquiryItem(ornament, quantity, configuration)] }),
+    onSuccess: (receipt) => {
+      toast({
+        title: t("inquiry.sent"),
+        description: t("inquiry.sentDescription", { reference: receipt.reference }),
+      });
+      onOpenChange(false);
+      onSubmitted?.(receipt);
+    },
+    onError: (error) => {
+      // The raw message is technical and untranslated: it goes to monitoring, not the toast
+      reportError({ scope: "inquiry", recovery: "error-toast", error, context: { items: items?.length ?? 1 } });
+      toast({
+        variant: "destructive",
+        title: t("inquiry.failed"),
+        description: t("inquiry.failedDescription"),
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("inquiry.title")}</DialogTitle>
+          <DialogDescription>
+            {t("inquiry.description", {
+              subject: isBasket ? t("inquiry.basketSubject", { count: items.length }) : ornament.name,
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isBasket ? (
+          <div className="rounded-lg border bg-muted/40 p-4 text-sm">
+            <ul className="space-y-1">
+              {items.map((item) => (
+                <li
+                  key={`${item.ornamentId}-${configurationKey(item.configuration)}`}
+                  className="flex justify-between gap-4"
+                >
+                  <span>
+                    <span className="font-medium">{item.name}</span>{" "}
+                    <span className="text-muted-foreground">({describeConfiguration(item.configuration, t)})</span>
+                  </span>
+                  <span className="text-muted-foreground">× {item.quantity}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="mt-3 border-t pt-2 text-xs text-muted-foreground">
+              {t("inquiry.totalWeight", {
+                weight: formatMass(
+                  items.reduce((sum, i) => sum + weightKg(i.weight) * i.quantity, 0),
+                  measure,
+                ),
+              })}
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-lg border bg-muted/40 p-4">
+            <p className="font-medium">{ornament.name}</p>
+            <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              {[specFields.dimensions, specFields.weight].map((field) => (
+                <Fragment key={field.key}>
+                  <dt>{specLabel(field, t)}</dt>
+                  <dd className="text-foreground">{specValue(field, ornament, measure)}</dd>
+                </Fragment>
+              ))}
+              <dt>{specLabel(specFields.finish, t)}</dt>
+              <dd className="text-foreground">
+                {configuration
+                  ? describeConfiguration(configuration, t)
+                  : specValue(specFields.finish, ornament, measure)}
+              </dd>
+            </dl>
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => submission.mutate(values))} className="space-y-4">
+            <div className={isBasket ? "grid gap-4" : "grid grid-cols-2 gap-4"}>
+              {!isBasket && (
+                <FormField
+                  control={form.control}
+                  name="quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("inquiry.quantity")}</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} step={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="projectLocation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("inquiry.projectLocation")}</FormLabel>
+                    <FormControl>
+                      <Input placeholder={t("inquiry.projectLocationPlaceholder")} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("inquiry.name")}</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("inquiry.email")}</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("inquiry.phone")}</FormLabel>
+                    <FormControl>
+                      <Input type="tel" autoComplete="tel" placeholder="+62" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("inquiry.message")}</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder={t("inquiry.messagePlaceholder")} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                {t("inquiry.cancel")}
+              </Button>
+              <Button type="submit" disabled={submission.isPending}>
+                {submission.isPending ? t("inquiry.submitting") : t("inquiry.submit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
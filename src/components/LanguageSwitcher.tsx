@@ -0,0 +1,29 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useI18n } from "@/hooks/use-i18n";
+import { localeNames, locales, type Locale } from "@/lib/i18n";
+
+export const LanguageSwitcher = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <ToggleGroup
+      type="single"
+      aria-label={t("app.language")}
+      value={locale}
+      onValueChange={(value) => value && setLocale(value as Locale)}
+      className="h-10 gap-0 rounded-full border border-accent/20 bg-background/20 p-1"
+    >
+      {locales.map((code) => (
+        <ToggleGroupItem
+          key={code}
+          value={code}
+          lang={code}
+          aria-label={localeNames[code]}
+          className="h-8 px-3 rounded-full font-mono text-[10px] uppercase tracking-widest text-muted-foreground hover:bg-accent/10 hover:text-accent data-[state=on]:bg-accent/20 data-[state=on]:text-accent"
+        >
+          {code}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+};
@@ -0,0 +1,25 @@
+import { Rabbit, Snail } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { useLowMotion } from "@/hooks/use-low-motion";
+
+/** Header switch for low-motion mode; starts from the system's reduced-motion setting. */
+export const MotionToggle = ({ className = "" }: { className?: string }) => {
+  const { t } = useI18n();
+  const { isLowMotion, setLowMotion } = useLowMotion();
+
+  return (
+    <button
+      onClick={() => setLowMotion(!isLowMotion)}
+      aria-pressed={isLowMotion}
+      aria-label={t("motion.reduce")}
+      title={t("motion.reduce")}
+      className={`w-10 h-10 rounded-full border flex items-center justify-center transition-colors ${
+        isLowMotion
+          ? "border-accent/50 bg-accent/20 text-accent"
+          : "border-accent/20 bg-background/20 text-muted-foreground hover:border-accent/40"
+      } ${className}`}
+    >
+      {isLowMotion ? <Snail className="w-4 h-4" /> : <Rabbit className="w-4 h-4" />}
+    </button>
+  );
+};
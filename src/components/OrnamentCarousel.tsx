@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { useI18n } from "@/hooks/use-i18n";
+import type { OrnamentData } from "@/lib/catalog";
+
+interface OrnamentCarouselProps {
+  ornaments: OrnamentData[];
+  selectedId: number | null;
+  /** Card to scroll into view, e.g. the keyboard focus; falls back to the selection. */
+  activeIndex: number | null;
+  dimmedIds: Set<number>;
+  onSelect: (id: number | null) => void;
+  /** Offered when 3D was lost at runtime and might work again. */
+  onRetry?: () => void;
+}
+
+/** Flat stand-in for the 3D wheel on devices without WebGL: the same ornaments as a scrollable strip. */
+export const OrnamentCarousel = ({
+  ornaments,
+  selectedId,
+  activeIndex,
+  dimmedIds,
+  onSelect,
+  onRetry,
+}: OrnamentCarouselProps) => {
+  const { t } = useI18n();
+  const [api, setApi] = useState<CarouselApi>();
+  const selectedIndex = ornaments.findIndex((o) => o.id === selectedId);
+  const targetIndex = activeIndex ?? (selectedIndex >= 0 ? selectedIndex : null);
+
+  useEffect(() => {
+    if (targetIndex !== null) api?.scrollTo(targetIndex);
+  }, [api, targetIndex]);
+
+  return (
+    <div className="absolute inset-0 flex flex-col justify-center gap-6 px-6 md:pl-[560px] md:pr-12 pt-24 pb-32">
+      <div className="flex items-center gap-4 font-mono text-xs uppercase tracking-widest text-muted-foreground">
+        <span>{t("fallback.notice")}</span>
+        {onRetry && (
+          <button onClick={onRetry} className="text-accent hover:underline">
+            {t("fallback.retry")}
+          </button>
+        )}
+      </div>
+      <Carousel setApi={setApi} opts={{ align: "start" }} aria-label={t("fallback.label")} className="group">
+        <CarouselContent>
+          {ornaments.map((ornament, index) => {
+            const isSelected = ornament.id === selectedId;
+            return (
+              <CarouselItem key={ornament.id} className="basis-4/5 sm:basis-1/2 lg:basis-1/3">
+                <button
+                  onClick={() => onSelect(isSelected ? null : ornament.id)}
+                  aria-pressed={isSelected}
+                  className={`block w-full text-left rounded-2xl overflow-hidden border bg-black/30 transition-all ${
+                    isSelected
+                      ? "border-cyan-400 shadow-[0_0_30px_rgba(0,255,255,0.2)]"
+                      : index === activeIndex
+                        ? "border-white ring-2 ring-cyan-300"
+                        : "border-white/10 hover:border-cyan-400/40"
+                  } ${dimmedIds.has(ornament.id) ? "opacity-30" : ""}`}
+                >
+                  <img
+                    src={ornament.texture}
+                    alt=""
+                    loading="lazy"
+                    className="w-full aspect-[16/10] object-cover"
+                  />
+                  <div className="p-4">
+                    <p className="text-xs font-mono font-bold text-cyan-400 uppercase tracking-widest">
+                      ORN. {ornament.id}
+                    </p>
+                    <p className="mt-1 text-white font-light tracking-wider">{ornament.name}</p>
+                    <p className="text-xs text-gray-400">
+                      {ornament.specs.category} · {ornament.specs.finish}
+                    </p>
+                  </div>
+                </button>
+              </CarouselItem>
+            );
+          })}
+        </CarouselContent>
+        <CarouselPrevious className="left-2 border-white/20 bg-black/40 text-white hover:bg-black/60" />
+        <CarouselNext className="right-2 border-white/20 bg-black/40 text-white hover:bg-black/60" />
+      </Carousel>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import { useEffect, useState, type MouseEvent } from "react";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { useI18n } from "@/hooks/use-i18n";
+import type { OrnamentData } from "@/lib/catalog";
+
+interface OrnamentGalleryProps {
+  ornament: OrnamentData;
+}
+
+/** Photo carousel for the detail panel: one slide per view, thumbnails below, click to zoom. */
+export const OrnamentGallery = ({ ornament }: OrnamentGalleryProps) => {
+  const { t } = useI18n();
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  const [isZoomed, setIsZoomed] = useState(false);
+  const [zoomOrigin, setZoomOrigin] = useState("50% 50%");
+  const { images } = ornament;
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => {
+      setCurrent(api.selectedScrollSnap());
+      setIsZoomed(false);
+    };
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  // Another ornament opened in the same panel: start again from its first photo
+  useEffect(() => {
+    api?.scrollTo(0, true);
+    setIsZoomed(false);
+  }, [api, ornament.id]);
+
+  // Zoom towards the pointer so the part being inspected stays under it
+  const followPointer = (e: MouseEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setZoomOrigin(`${((e.clientX - rect.left) / rect.width) * 100}% ${((e.clientY - rect.top) / rect.height) * 100}%`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Carousel setApi={setApi} opts={{ watchDrag: !isZoomed }} className="group">
+        <CarouselContent className="ml-0">
+          {images.map((image, index) => (
+            <CarouselItem key={image.src + index} className="pl-0">
+              <button
+                type="button"
+                onClick={() => setIsZoomed((z) => !z)}
+                onMouseMove={isZoomed ? followPointer : undefined}
+                aria-label={isZoomed ? t("gallery.zoomOut") : t("gallery.zoomIn")}
+                className={`block w-full aspect-[16/10] rounded-2xl overflow-hidden border border-white/10 shadow-lg relative ${
+                  isZoomed ? "cursor-zoom-out" : "cursor-zoom-in"
+                }`}
+              >
+                <img
+                  src={image.src}
+                  alt={image.alt ?? `${ornament.name} — ${t(`gallery.view.${image.view}`)}`}
+                  loading={index === 0 ? "eager" : "lazy"}
+                  className="w-full h-full object-cover transition-transform duration-300"
+                  style={{
+                    transform: isZoomed && index === current ? "scale(2.2)" : "none",
+                    transformOrigin: zoomOrigin,
+                  }}
+                />
+                <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent pointer-events-none" />
+                <div className="absolute bottom-4 left-4 flex gap-2">
+                  <span className="px-3 py-1 bg-cyan-500/20 backdrop-blur-md rounded-full text-xs font-mono text-cyan-300 uppercase tracking-wider border border-cyan-400/30">
+                    {ornament.specs.category}
+                  </span>
+                  <span className="px-3 py-1 bg-black/40 backdrop-blur-md rounded-full text-xs font-mono text-white/80 uppercase tracking-wider border border-white/20">
+                    {t(`gallery.view.${image.view}`)}
+                  </span>
+                </div>
+                <span className="absolute top-3 right-3 w-8 h-8 rounded-full bg-black/40 border border-white/20 flex items-center justify-center text-white/80">
+                  {isZoomed ? <ZoomOut className="w-4 h-4" /> : <ZoomIn className="w-4 h-4" />}
+                </span>
+              </button>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious className="left-3 border-white/20 bg-black/40 text-white hover:bg-black/60 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity" />
+            <CarouselNext className="right-3 border-white/20 bg-black/40 text-white hover:bg-black/60 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity" />
+          </>
+        )}
+      </Carousel>
+
+      {images.length > 1 && (
+        <div className="flex gap-2" role="tablist" aria-label={t("gallery.views")}>
+          {images.map((image, index) => (
+            <button
+              key={image.src + index}
+              type="button"
+              role="tab"
+              aria-selected={index === current}
+              aria-label={t(`gallery.view.${image.view}`)}
+              onClick={() => api?.scrollTo(index)}
+              className={`w-16 aspect-[16/10] rounded-lg overflow-hidden border transition-all ${
+                index === current ? "border-cyan-400 ring-1 ring-cyan-400/50" : "border-white/10 opacity-60 hover:opacity-100"
+              }`}
+            >
+              <img src={image.src} alt="" loading="lazy" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import { forwardRef } from "react";
+import { useI18n } from "@/hooks/use-i18n";
+import type { OrnamentData } from "@/lib/catalog";
+
+interface OrnamentListboxProps {
+  ornaments: OrnamentData[];
+  /** Index of the keyboard-focused ornament, or null before the user navigates. */
+  activeIndex: number | null;
+  selectedId: number | null;
+  onOptionClick: (index: number) => void;
+}
+
+const optionId = (id: number) => `ornament-option-${id}`;
+
+/**
+ * Visually hidden listbox mirroring the cards on the 3D wheel, so screen
+ * readers and keyboard users get the same catalog the canvas draws.
+ * Key handling lives in the wheel container; this only exposes the state.
+ */
+export const OrnamentListbox = forwardRef<HTMLUListElement, OrnamentListboxProps>(
+  ({ ornaments, activeIndex, selectedId, onOptionClick }, ref) => {
+    const { t } = useI18n();
+    const active = activeIndex !== null ? ornaments[activeIndex] : undefined;
+
+    return (
+      <>
+        <ul
+          ref={ref}
+          role="listbox"
+          tabIndex={0}
+          aria-label={t("listbox.label")}
+          aria-activedescendant={active ? optionId(active.id) : undefined}
+          className="sr-only"
+        >
+          {ornaments.map((ornament, index) => (
+            <li
+              key={ornament.id}
+              id={optionId(ornament.id)}
+              role="option"
+              aria-selected={ornament.id === selectedId}
+              aria-posinset={index + 1}
+              aria-setsize={ornaments.length}
+              onClick={() => onOptionClick(index)}
+            >
+              {ornament.name}, {ornament.specs.category}
+            </li>
+          ))}
+        </ul>
+
+        <p aria-live="polite" aria-atomic="true" className="sr-only">
+          {active
+            ? t("listbox.position", {
+                name: active.name,
+                position: activeIndex + 1,
+                total: ornaments.length,
+                category: active.specs.category,
+                finish: active.specs.finish,
+              })
+            : ""}
+        </p>
+      </>
+    );
+  },
+);
+OrnamentListbox.displayName = "OrnamentListbox";
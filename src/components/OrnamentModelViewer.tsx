@@ -0,0 +1,144 @@
+import { Suspense, useMemo } from "react";
+import { Canvas } from "@react-three/fiber";
+import { Bounds, Center, Html, OrbitControls, useGLTF, useTexture } from "@react-three/drei";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { ReliefSurface } from "@/components/ReliefSurface";
+import { useI18n } from "@/hooks/use-i18n";
+import { useLowMotion } from "@/hooks/use-low-motion";
+import { reliefDepthRatio, type OrnamentData } from "@/lib/catalog";
+
+const CARD_WIDTH = 3.8;
+const CARD_DEPTH = 0.15;
+// Finer than on the wheel: the viewer is close up and only draws one card
+const RELIEF_SEGMENTS = 320;
+
+function GltfModel({ url }: { url: string }) {
+  const { scene } = useGLTF(url);
+  // useGLTF caches per URL; clone so the wheel and the viewer never share one scene graph
+  const model = useMemo(() => scene.clone(true), [scene]);
+
+  return (
+    <Center>
+      <primitive object={model} />
+    </Center>
+  );
+}
+
+/** The wheel card on its own: photo on a slab, with the carved relief on top when the ornament has a height map. */
+function TextureCard({ ornament }: { ornament: OrnamentData }) {
+  const map = useTexture(ornament.texture);
+  const { width, height } = ornament.dimensions;
+  const cardHeight = (CARD_WIDTH * height) / width;
+
+  return (
+    <group>
+      <mesh>
+        <boxGeometry args={[CARD_WIDTH, cardHeight, CARD_DEPTH]} />
+        <meshStandardMaterial map={map} metalness={0.1} roughness={0.5} />
+      </mesh>
+      {ornament.relief && (
+        <group position={[0, 0, CARD_DEPTH / 2 + 0.005]}>
+          <ReliefSurface
+            texture={ornament.texture}
+            heightMap={ornament.relief.heightMap}
+            width={CARD_WIDTH}
+            height={cardHeight}
+            displacement={reliefDepthRatio(ornament) * CARD_WIDTH}
+            segments={RELIEF_SEGMENTS}
+          />
+        </group>
+      )}
+    </group>
+  );
+}
+
+function ViewerLoading() {
+  const { t } = useI18n();
+  return (
+    <Html center>
+      <p className="font-mono text-[10px] tracking-widest text-cyan-300 whitespace-nowrap">{t("app.loading")}</p>
+    </Html>
+  );
+}
+
+interface OrnamentModelViewerProps {
+  ornament: OrnamentData;
+}
+
+/**
+ * Orbitable 3D view of one ornament: its glTF model when it has one, otherwise the
+ * textured card, carved from its height map if it has one.
+ */
+export const OrnamentModelViewer = ({ ornament }: OrnamentModelViewerProps) => {
+  const { t } = useI18n();
+  const { isLowMotion } = useLowMotion();
+  const card = <TextureCard ornament={ornament} />;
+
+  // Fetch the card's images again rather than rethrowing the cached failure
+  const clearTextures = () => {
+    useTexture.clear(ornament.texture);
+    if (ornament.relief) useTexture.clear([ornament.texture, ornament.relief.heightMap]);
+  };
+
+  return (
+    <div className="relative aspect-[16/10] rounded-2xl overflow-hidden border border-white/10 shadow-lg bg-gradient-to-b from-[#1a1a2e] to-[#080810]">
+      {/* The texture card failed too: say so in place of the canvas, with a retry */}
+      <ErrorBoundary
+        key={ornament.id}
+        scope="viewer"
+        context={{ ornamentId: ornament.id }}
+        recovery="error-state"
+        fallback={(retry) => (
+          <div role="alert" className="absolute inset-0 flex flex-col items-center justify-center gap-3 font-mono text-xs">
+            <p className="tracking-wider text-muted-foreground">{t("viewer.error")}</p>
+            <button
+              onClick={() => {
+                clearTextures();
+                retry();
+              }}
+              className="uppercase tracking-widest text-accent hover:underline"
+            >
+              {t("app.retry")}
+            </button>
+          </div>
+        )}
+      >
+        <Canvas
+          camera={{ position: [0, 0, 6], fov: 40 }}
+          dpr={[1, 1.5]}
+          frameloop={isLowMotion ? "demand" : "always"}
+          style={{ touchAction: "none" }}
+        >
+          <ambientLight intensity={0.7} />
+          <directionalLight position={[5, 5, 5]} intensity={1.2} />
+          <directionalLight position={[-4, -2, -3]} intensity={0.4} />
+          <Suspense fallback={<ViewerLoading />}>
+            {/* A broken or unreachable model file shows the texture card instead */}
+            {/* key: a new model gets a fresh boundary instead of inheriting the last one's error */}
+            <ErrorBoundary
+              key={ornament.model ?? ornament.relief?.heightMap ?? ornament.texture}
+              scope="model"
+              context={{ ornamentId: ornament.id, urls: ornament.model ? [ornament.model] : [] }}
+              recovery="texture-card"
+              fallback={card}
+            >
+              <Bounds fit clip observe margin={1.2}>
+                {ornament.model ? <GltfModel url={ornament.model} /> : card}
+              </Bounds>
+            </ErrorBoundary>
+          </Suspense>
+          <OrbitControls
+            makeDefault
+            enablePan={false}
+            enableDamping={!isLowMotion}
+            minDistance={2}
+            maxDistance={12}
+          />
+        </Canvas>
+      </ErrorBoundary>
+      <p className="absolute bottom-3 left-4 font-mono text-[10px] uppercase tracking-widest text-white/50 pointer-events-none">
+        {t("viewer.hint")}
+      </p>
+    </div>
+  );
+};
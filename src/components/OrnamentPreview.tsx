@@ -0,0 +1,67 @@
+import { Suspense, useRef } from "react";
+import { Canvas, useFrame } from "@react-three/fiber";
+import { useTexture } from "@react-three/drei";
+import * as THREE from "three";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { useLowMotion } from "@/hooks/use-low-motion";
+import { useWebGL } from "@/hooks/use-webgl";
+import type { OrnamentData } from "@/lib/catalog";
+
+// Fixed three-quarter view used instead of the spin in low-motion mode
+const STILL_ANGLE = -0.35;
+
+function SpinningCard({ texture, isStill }: { texture: string; isStill: boolean }) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const map = useTexture(texture);
+
+  useFrame((_, delta) => {
+    if (meshRef.current && !isStill) meshRef.current.rotation.y += delta * 0.6;
+  });
+
+  return (
+    <mesh ref={meshRef} rotation={isStill ? [0, STILL_ANGLE, 0] : undefined}>
+      <boxGeometry args={[3.8, 2.6, 0.15]} />
+      <meshStandardMaterial map={map} metalness={0.1} roughness={0.5} />
+    </mesh>
+  );
+}
+
+interface OrnamentPreviewProps {
+  ornament: OrnamentData;
+  className?: string;
+}
+
+/** Small self-contained canvas showing one ornament card slowly turning. */
+export const OrnamentPreview = ({ ornament, className = "" }: OrnamentPreviewProps) => {
+  const { isLowMotion } = useLowMotion();
+  const { isAvailable: hasWebGL } = useWebGL();
+
+  const photo = (
+    <div className={`relative aspect-[4/3] flex items-center justify-center ${className}`}>
+      <img src={ornament.texture} alt="" className="w-4/5 aspect-[38/26] object-cover rounded-sm shadow-lg" />
+    </div>
+  );
+
+  if (!hasWebGL) return photo;
+
+  // A texture that fails to load leaves the plain photo in place of the canvas
+  return (
+    <ErrorBoundary
+      key={ornament.id}
+      scope="preview"
+      context={{ ornamentId: ornament.id }}
+      recovery="photo"
+      fallback={photo}
+    >
+      <div className={`relative aspect-[4/3] ${className}`}>
+        <Canvas camera={{ position: [0, 0, 5], fov: 45 }} dpr={[1, 1.5]} frameloop={isLowMotion ? "demand" : "always"}>
+          <ambientLight intensity={0.8} />
+          <directionalLight position={[5, 5, 5]} intensity={1.2} />
+          <Suspense fallback={null}>
+            <SpinningCard texture={ornament.texture} isStill={isLowMotion} />
+          </Suspense>
+        </Canvas>
+      </div>
+    </ErrorBoundary>
+  );
+};
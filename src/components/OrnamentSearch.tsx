@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { Search } from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { useI18n } from "@/hooks/use-i18n";
+import { useMeasureFormat } from "@/hooks/use-unit-system";
+import type { OrnamentData } from "@/lib/catalog";
+import { formatDimensions } from "@/lib/spec-fields";
+
+interface OrnamentSearchProps {
+  ornaments: OrnamentData[];
+  onSelect: (id: number) => void;
+}
+
+/** Command palette over the whole catalog. Opens from the header button or Ctrl/⌘+K. */
+export const OrnamentSearch = ({ ornaments, onSelect }: OrnamentSearchProps) => {
+  const [open, setOpen] = useState(false);
+  const { t } = useI18n();
+  const measure = useMeasureFormat();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((o) => !o);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        aria-label={t("search.open")}
+        className="h-10 px-4 rounded-full border border-accent/20 bg-background/20 text-muted-foreground hover:border-accent/40 flex items-center gap-2 transition-all"
+      >
+        <Search className="w-4 h-4" />
+        <kbd className="hidden md:inline font-mono text-[10px] tracking-widest">⌘K</kbd>
+      </button>
+
+      <CommandDialog open={open} onOpenChange={setOpen}>
+        <CommandInput placeholder={t("search.placeholder")} />
+        <CommandList>
+          <CommandEmpty>{t("search.empty")}</CommandEmpty>
+          <CommandGroup heading={t("search.group")}>
+            {ornaments.map((ornament) => (
+              <CommandItem
+                key={ornament.id}
+                value={`${ornament.name} #${ornament.id}`}
+                keywords={[ornament.description, ...Object.values(ornament.specs)]}
+                onSelect={() => {
+                  setOpen(false);
+                  onSelect(ornament.id);
+                }}
+              >
+                <img src={ornament.texture} alt="" className="mr-3 h-8 w-10 rounded object-cover" />
+                <div className="flex flex-col">
+                  <span>{ornament.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {ornament.specs.category} · {ornament.specs.finish} ·{" "}
+                    {formatDimensions(ornament.dimensions, measure)}
+                  </span>
+                </div>
+                <CommandShortcut>ORN. {ornament.id}</CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
@@ -1,4 +1,5 @@
 import { motion } from "framer-motion";
+import { useLowMotion } from "@/hooks/use-low-motion";
 
 interface PuzzleSlotProps {
   isActive: boolean;
@@ -6,6 +7,8 @@ interface PuzzleSlotProps {
 }
 
 export const PuzzleSlot = ({ isActive, accentColor = "hsl(38 65% 55%)" }: PuzzleSlotProps) => {
+  const { isLowMotion } = useLowMotion();
+
   return (
     <div className="relative">
       {/* Puzzle outline */}
@@ -14,7 +17,7 @@ export const PuzzleSlot = ({ isActive, accentColor = "hsl(38 65% 55%)" }: Puzzle
         initial={{ opacity: 0, scale: 0.9 }}
         animate={{
           opacity: isActive ? 1 : 0.3,
-          scale: isActive ? 1 : 0.95,
+          scale: isActive || isLowMotion ? 1 : 0.95,
         }}
         transition={{ duration: 0.6, ease: "easeOut" }}
       >
@@ -33,8 +36,14 @@ export const PuzzleSlot = ({ isActive, accentColor = "hsl(38 65% 55%)" }: Puzzle
         <div className="absolute -bottom-3 -left-3 h-6 w-6 rounded-full" style={{ backgroundColor: accentColor }} />
         <div className="absolute -bottom-3 -right-3 h-6 w-6 rounded-full" style={{ backgroundColor: accentColor }} />
         
-        {/* Pulsing effect when active */}
-        {isActive && (
+        {/* Pulsing effect when active; a steady outline in low-motion mode */}
+        {isActive && isLowMotion && (
+          <div
+            className="absolute inset-0 rounded-2xl"
+            style={{ border: `2px solid ${accentColor}` }}
+          />
+        )}
+        {isActive && !isLowMotion && (
           <motion.div
             className="absolute inset-0 rounded-2xl"
             style={{
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Minus, Plus, ShoppingBag, Trash2 } from "lucide-react";
+import { InquiryDialog } from "@/components/InquiryDialog";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useBasket } from "@/hooks/use-basket";
+import { useI18n } from "@/hooks/use-i18n";
+import { useMeasureFormat } from "@/hooks/use-unit-system";
+import { weightKg, type OrnamentData } from "@/lib/catalog";
+import { configurationKey, defaultConfiguration, describeConfiguration } from "@/lib/configurator";
+import { toInquiryItem } from "@/lib/inquiry";
+import { formatDimensions } from "@/lib/spec-fields";
+import { formatMass } from "@/lib/units";
+
+interface QuoteBasketProps {
+  ornaments: OrnamentData[];
+}
+
+export const QuoteBasket = ({ ornaments }: QuoteBasketProps) => {
+  const { lines, count, setQuantity, remove, clear } = useBasket();
+  const { t, formatNumber } = useI18n();
+  const measure = useMeasureFormat();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isInquiryOpen, setIsInquiryOpen] = useState(false);
+
+  // Lines for ornaments that have since left the catalog are skipped
+  const entries = lines.flatMap((line) => {
+    const ornament = ornaments.find((o) => o.id === line.ornamentId);
+    if (!ornament) return [];
+    const configuration = line.configuration ?? defaultConfiguration(ornament);
+    return [{ line, ornament, configuration, quantity: line.quantity }];
+  });
+  const totalWeight = entries.reduce((sum, e) => sum + weightKg(e.ornament.weight) * e.quantity, 0);
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        aria-label={t("basket.open", { count })}
+        className="relative w-10 h-10 rounded-full border border-accent/20 bg-background/20 text-muted-foreground hover:border-accent/40 flex items-center justify-center transition-all"
+      >
+        <ShoppingBag className="w-4 h-4" />
+        {count > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-accent text-accent-foreground text-[10px] font-mono font-bold flex items-center justify-center">
+            {formatNumber(count)}
+          </span>
+        )}
+      </button>
+
+      <Sheet open={isOpen} onOpenChange={setIsOpen}>
+        <SheetContent className="flex flex-col">
+          <SheetHeader>
+            <SheetTitle>{t("basket.title")}</SheetTitle>
+            <SheetDescription>{t("basket.description")}</SheetDescription>
+          </SheetHeader>
+
+          <div className="flex-1 overflow-y-auto -mx-6 px-6">
+            {entries.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">{t("basket.empty")}</p>
+            ) : (
+              <ul className="divide-y">
+                {entries.map(({ line, ornament, configuration, quantity }) => (
+                  <li key={`${ornament.id}-${configurationKey(configuration)}`} className="flex items-center gap-3 py-3">
+                    <img src={ornament.texture} alt="" className="h-12 w-16 rounded-md object-cover" />
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate text-sm font-medium">{ornament.name}</p>
+                      <p className="truncate text-xs text-muted-foreground">{describeConfiguration(configuration, t)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDimensions(ornament.dimensions, measure)} ·{" "}
+                        {formatMass(weightKg(ornament.weight), measure)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7"
+                        aria-label={t("basket.decrease")}
+                        onClick={() => setQuantity(line, quantity - 1)}
+                      >
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <span className="w-8 text-center text-sm tabular-nums">{quantity}</span>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7"
+                        aria-label={t("basket.increase")}
+                        onClick={() => setQuantity(line, quantity + 1)}
+                      >
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-muted-foreground"
+                      aria-label={t("basket.remove", { name: ornament.name })}
+                      onClick={() => remove(line)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <SheetFooter className="flex-col gap-3 border-t pt-4 sm:flex-col sm:space-x-0">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{t("basket.totalWeight")}</span>
+              <span className="font-medium tabular-nums">±{formatMass(totalWeight, measure)}</span>
+            </div>
+            <Button disabled={entries.length === 0} onClick={() => setIsInquiryOpen(true)}>
+              {t("basket.submit")}
+            </Button>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+
+      <InquiryDialog
+        items={entries.map((e) => toInquiryItem(e.ornament, e.quantity, e.configuration))}
+        open={isInquiryOpen}
+        onOpenChange={setIsInquiryOpen}
+        onSubmitted={() => {
+          clear();
+          setIsOpen(false);
+        }}
+      />
+    </>
+  );
+};
@@ -0,0 +1,51 @@
+import { useTexture } from "@react-three/drei";
+import type { MeshStandardMaterialProps } from "@react-three/fiber";
+import * as THREE from "three";
+
+interface ReliefSurfaceProps {
+  /** Photo draped over the relief. */
+  texture: string;
+  /** Grayscale height map: white is the highest point of the carving, black the background. */
+  heightMap: string;
+  width: number;
+  height: number;
+  /** Height of pure white above the plane, in scene units. */
+  displacement: number;
+  /** Grid resolution along the width; the height follows the aspect ratio. */
+  segments: number;
+  material?: MeshStandardMaterialProps;
+}
+
+/**
+ * Subdivided plane displaced by a height map, facing +Z. The same map drives the
+ * bump mapping, so the shading follows the carving as the light moves across it.
+ */
+export function ReliefSurface({
+  texture,
+  heightMap,
+  width,
+  height,
+  displacement,
+  segments,
+  material,
+}: ReliefSurfaceProps) {
+  const [map, heights] = useTexture([texture, heightMap]);
+  // Height maps hold data, not colour: keep them out of the sRGB conversion
+  heights.colorSpace = THREE.NoColorSpace;
+
+  return (
+    <mesh>
+      <planeGeometry args={[width, height, segments, Math.max(1, Math.round((segments * height) / width))]} />
+      <meshStandardMaterial
+        metalness={0.1}
+        roughness={0.7}
+        {...material}
+        map={map}
+        displacementMap={heights}
+        displacementScale={displacement}
+        bumpMap={heights}
+        bumpScale={1.5}
+      />
+    </mesh>
+  );
+}
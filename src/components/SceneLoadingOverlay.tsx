@@ -0,0 +1,53 @@
+import { useProgress } from "@react-three/drei";
+import { Progress } from "@/components/ui/progress";
+import { useI18n } from "@/hooks/use-i18n";
+import { useTextureFailures } from "@/hooks/use-texture-failures";
+
+const fileName = (url: string) => decodeURIComponent(url.split("/").pop() ?? url);
+
+/**
+ * Texture progress for the 3D scene, read from three's default loading manager, plus the
+ * images that failed with a button to fetch them again. Sits over the canvas, outside it.
+ */
+export const SceneLoadingOverlay = () => {
+  const { t, formatNumber } = useI18n();
+  // Only what the overlay shows: the loading manager fires for every file
+  const active = useProgress((state) => state.active);
+  const progress = useProgress((state) => state.progress);
+  const item = useProgress((state) => state.item);
+  const loaded = useProgress((state) => state.loaded);
+  const total = useProgress((state) => state.total);
+  const { urls: failedUrls, retry } = useTextureFailures();
+
+  if (!active && failedUrls.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-20 w-[min(360px,calc(100vw-3rem))] rounded-2xl border border-accent/20 bg-black/60 backdrop-blur-md px-5 py-4 font-mono text-xs text-muted-foreground">
+      {active && (
+        <div role="status" aria-live="polite" className="space-y-2">
+          <div className="flex items-center justify-between gap-4 tracking-wider">
+            <span>{t("loading.assets", { loaded, total })}</span>
+            <span className="text-accent">{formatNumber(progress / 100, { style: "percent" })}</span>
+          </div>
+          <Progress value={progress} aria-hidden className="h-1.5 bg-white/10" />
+          {item && <p className="truncate text-[10px] text-white/40">{fileName(item)}</p>}
+        </div>
+      )}
+      {failedUrls.length > 0 && (
+        <div role="alert" className={active ? "mt-4 space-y-2" : "space-y-2"}>
+          <p className="text-red-300 tracking-wider">{t("loading.failed", { count: failedUrls.length })}</p>
+          <ul className="space-y-0.5 text-[10px] text-white/40">
+            {failedUrls.map((url) => (
+              <li key={url} className="truncate" title={url}>
+                {fileName(url)}
+              </li>
+            ))}
+          </ul>
+          <button onClick={retry} className="text-accent uppercase tracking-widest hover:underline">
+            {t("loading.retry")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
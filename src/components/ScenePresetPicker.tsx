@@ -0,0 +1,42 @@
+import { Lamp, Moon, Sun, type LucideIcon } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useI18n } from "@/hooks/use-i18n";
+import { useScenePreset } from "@/hooks/use-scene-preset";
+import { isScenePreset, scenePresets, type ScenePreset } from "@/lib/scene-presets";
+
+const presetIcons: Record<ScenePreset, LucideIcon> = {
+  studio: Lamp,
+  daylight: Sun,
+  night: Moon,
+};
+
+/** Header switch between the wheel's lighting presets; daylight and night also set the site theme. */
+export const ScenePresetPicker = () => {
+  const { t } = useI18n();
+  const { preset, setPreset } = useScenePreset();
+
+  return (
+    <ToggleGroup
+      type="single"
+      aria-label={t("scene.label")}
+      value={preset}
+      onValueChange={(value) => isScenePreset(value) && setPreset(value)}
+      className="h-10 gap-0 rounded-full border border-accent/20 bg-background/20 p-1"
+    >
+      {scenePresets.map((option) => {
+        const Icon = presetIcons[option];
+        return (
+          <ToggleGroupItem
+            key={option}
+            value={option}
+            aria-label={t(`scene.${option}`)}
+            title={t(`scene.${option}`)}
+            className="h-8 w-8 p-0 rounded-full text-muted-foreground hover:bg-accent/10 hover:text-accent data-[state=on]:bg-accent/20 data-[state=on]:text-accent"
+          >
+            <Icon className="w-4 h-4" />
+          </ToggleGroupItem>
+        );
+      })}
+    </ToggleGroup>
+  );
+};
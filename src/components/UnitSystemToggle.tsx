@@ -0,0 +1,35 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useI18n } from "@/hooks/use-i18n";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { unitSystems, type UnitSystem } from "@/lib/units";
+
+const unitSymbols: Record<UnitSystem, string> = {
+  metric: "cm · kg",
+  imperial: "in · lb",
+};
+
+export const UnitSystemToggle = ({ className = "" }: { className?: string }) => {
+  const { t } = useI18n();
+  const { system, setUnitSystem } = useUnitSystem();
+
+  return (
+    <ToggleGroup
+      type="single"
+      aria-label={t("units.label")}
+      value={system}
+      onValueChange={(value) => value && setUnitSystem(value as UnitSystem)}
+      className={`gap-0 rounded-full border border-white/10 bg-white/5 p-0.5 ${className}`}
+    >
+      {unitSystems.map((option) => (
+        <ToggleGroupItem
+          key={option}
+          value={option}
+          aria-label={t(`units.${option}`)}
+          className="h-6 px-2.5 rounded-full font-mono text-[10px] normal-case tracking-wider text-gray-400 hover:bg-white/10 hover:text-white data-[state=on]:bg-cyan-500/20 data-[state=on]:text-cyan-300"
+        >
+          {unitSymbols[option]}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+};
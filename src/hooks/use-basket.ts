@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { createPersistedStore, useStore } from "@/hooks/use-store";
+import { configurationKey, ornamentConfigurationSchema, type OrnamentConfiguration } from "@/lib/configurator";
+
+const STORAGE_KEY = "grc-quote-basket";
+
+const basketLineSchema = z.object({
+  ornamentId: z.number().int().positive(),
+  quantity: z.number().int().positive(),
+  // Lines saved before the configurator existed have none: they use the catalog finish
+  configuration: ornamentConfigurationSchema.optional(),
+});
+
+export type BasketLine = z.infer<typeof basketLineSchema>;
+
+/** Identifies a line: the same ornament in another finish is a separate line. */
+export type BasketLineKey = Pick<BasketLine, "ornamentId" | "configuration">;
+
+const isLine = (line: BasketLine, key: BasketLineKey) =>
+  line.ornamentId === key.ornamentId &&
+  (line.configuration && configurationKey(line.configuration)) ===
+    (key.configuration && configurationKey(key.configuration));
+
+type Action =
+  | { type: "ADD"; line: BasketLine }
+  | { type: "SET_QUANTITY"; key: BasketLineKey; quantity: number }
+  | { type: "REMOVE"; key: BasketLineKey }
+  | { type: "CLEAR" };
+
+interface State {
+  lines: BasketLine[];
+}
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "ADD": {
+      const existing = state.lines.find((l) => isLine(l, action.line));
+      if (!existing) {
+        return { lines: [...state.lines, action.line] };
+      }
+      return {
+        lines: state.lines.map((l) => (l === existing ? { ...l, quantity: l.quantity + action.line.quantity } : l)),
+      };
+    }
+    case "SET_QUANTITY":
+      if (action.quantity < 1) {
+        return { lines: state.lines.filter((l) => !isLine(l, action.key)) };
+      }
+      return {
+        lines: state.lines.map((l) => (isLine(l, action.key) ? { ...l, quantity: action.quantity } : l)),
+      };
+    case "REMOVE":
+      return { lines: state.lines.filter((l) => !isLine(l, action.key)) };
+    case "CLEAR":
+      return { lines: [] };
+  }
+};
+
+const basketStore = createPersistedStore<State>({
+  key: STORAGE_KEY,
+  fallback: { lines: [] },
+  parse: (stored) => {
+    const result = z.array(basketLineSchema).safeParse(JSON.parse(stored ?? "[]"));
+    return result.success ? { lines: result.data } : null;
+  },
+  serialize: (state) => JSON.stringify(state.lines),
+});
+
+const dispatch = (action: Action) => basketStore.set(reducer(basketStore.get(), action));
+
+const basket = {
+  add: (ornamentId: number, quantity = 1, configuration?: OrnamentConfiguration) =>
+    dispatch({ type: "ADD", line: { ornamentId, quantity, configuration } }),
+  setQuantity: (key: BasketLineKey, quantity: number) => dispatch({ type: "SET_QUANTITY", key, quantity }),
+  remove: (key: BasketLineKey) => dispatch({ type: "REMOVE", key }),
+  clear: () => dispatch({ type: "CLEAR" }),
+};
+
+function useBasket() {
+  const state = useStore(basketStore);
+
+  return {
+    ...state,
+    count: state.lines.reduce((sum, l) => sum + l.quantity, 0),
+    ...basket,
+  };
+}
+
+export { useBasket, basket };
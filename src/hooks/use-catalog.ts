@@ -0,0 +1,22 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useI18n } from "@/hooks/use-i18n";
+import { fetchCatalog, localizeOrnament, type OrnamentData } from "@/lib/catalog";
+
+export const catalogQueryKey = ["catalog"] as const;
+
+/** The catalog with product text in the current UI language. Switching language does not refetch. */
+export function useCatalog() {
+  const { locale } = useI18n();
+  const select = useCallback(
+    (ornaments: OrnamentData[]) => ornaments.map((ornament) => localizeOrnament(ornament, locale)),
+    [locale],
+  );
+
+  return useQuery({
+    queryKey: catalogQueryKey,
+    queryFn: ({ signal }) => fetchCatalog(signal),
+    select,
+    staleTime: 5 * 60 * 1000,
+  });
+}
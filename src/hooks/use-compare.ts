@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { createPersistedStore, useStore } from "@/hooks/use-store";
+
+const STORAGE_KEY = "grc-compare";
+
+export const MAX_COMPARE = 4;
+
+type Action = { type: "TOGGLE"; ornamentId: number } | { type: "CLEAR" };
+
+interface State {
+  ids: number[];
+}
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "TOGGLE":
+      if (state.ids.includes(action.ornamentId)) {
+        return { ids: state.ids.filter((id) => id !== action.ornamentId) };
+      }
+      // Full: ignore, callers check `isFull` to tell the user why
+      if (state.ids.length >= MAX_COMPARE) return state;
+      return { ids: [...state.ids, action.ornamentId] };
+    case "CLEAR":
+      return { ids: [] };
+  }
+};
+
+const compareStore = createPersistedStore<State>({
+  key: STORAGE_KEY,
+  fallback: { ids: [] },
+  parse: (stored) => {
+    const result = z
+      .array(z.number().int().positive())
+      .max(MAX_COMPARE)
+      .safeParse(JSON.parse(stored ?? "[]"));
+    return result.success ? { ids: result.data } : null;
+  },
+  serialize: (state) => JSON.stringify(state.ids),
+});
+
+const dispatch = (action: Action) => compareStore.set(reducer(compareStore.get(), action));
+
+const compare = {
+  toggle: (ornamentId: number) => dispatch({ type: "TOGGLE", ornamentId }),
+  clear: () => dispatch({ type: "CLEAR" }),
+};
+
+function useCompare() {
+  const state = useStore(compareStore);
+
+  return {
+    ...state,
+    isFull: state.ids.length >= MAX_COMPARE,
+    isPinned: (ornamentId: number) => state.ids.includes(ornamentId),
+    ...compare,
+  };
+}
+
+export { useCompare, compare };
@@ -0,0 +1,49 @@
+import * as React from "react";
+import { createPersistedStore, useStore } from "@/hooks/use-store";
+import {
+  detectLocale,
+  formatNumber,
+  formatUnit,
+  isLocale,
+  translate,
+  type Locale,
+  type MeasureUnit,
+  type MessageKey,
+  type TranslationParams,
+} from "@/lib/i18n";
+
+const STORAGE_KEY = "grc-locale";
+
+const localeStore = createPersistedStore<Locale>({
+  key: STORAGE_KEY,
+  fallback: detectLocale(),
+  parse: (stored) => (isLocale(stored) ? stored : null),
+});
+
+function applyDocumentLang(locale: Locale) {
+  document.documentElement.lang = locale;
+}
+
+if (typeof window !== "undefined") {
+  applyDocumentLang(localeStore.get());
+  localeStore.subscribe(applyDocumentLang);
+}
+
+function useI18n() {
+  const locale = useStore(localeStore);
+
+  // Stable per locale so they can sit in dependency arrays (schemas, query selectors)
+  return React.useMemo(
+    () => ({
+      locale,
+      setLocale: (next: Locale) => localeStore.set(next),
+      t: (key: MessageKey, params?: TranslationParams) => translate(locale, key, params),
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(locale, value, options),
+      formatUnit: (value: number, unit: MeasureUnit, options?: Intl.NumberFormatOptions) =>
+        formatUnit(locale, value, unit, options),
+    }),
+    [locale],
+  );
+}
+
+export { useI18n };
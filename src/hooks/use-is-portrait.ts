@@ -0,0 +1,19 @@
+import { useEffect, useState, type RefObject } from "react";
+
+/** Whether the element is taller than it is wide; follows resizes and device rotation. */
+export function useIsPortrait(ref: RefObject<Element>) {
+  const [isPortrait, setIsPortrait] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setIsPortrait(height > width);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return isPortrait;
+}
@@ -0,0 +1,36 @@
+import { createPersistedStore, createStore, useStore } from "@/hooks/use-store";
+
+const STORAGE_KEY = "grc-motion";
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+/** Explicit choice made in the UI; null follows the operating system setting. */
+type MotionChoice = "reduced" | "full" | null;
+
+const choiceStore = createPersistedStore<MotionChoice>({
+  key: STORAGE_KEY,
+  fallback: null,
+  parse: (stored) => (stored === "reduced" || stored === "full" ? stored : null),
+});
+
+const systemStore = createStore(
+  typeof window !== "undefined" && window.matchMedia?.(REDUCED_MOTION_QUERY).matches === true,
+);
+
+if (typeof window !== "undefined") {
+  // Only matters while the user has not chosen in the UI, but cheap to always follow
+  window.matchMedia?.(REDUCED_MOTION_QUERY).addEventListener?.("change", (event) => systemStore.set(event.matches));
+}
+
+/**
+ * Low-motion mode: on when the user switched it on, or when they have not chosen and the
+ * system asks for reduced motion. Animations drop springs, spins and auto-play while it is on.
+ */
+function useLowMotion() {
+  const choice = useStore(choiceStore);
+  const prefersReducedMotion = useStore(systemStore);
+  const isLowMotion = choice === "reduced" || (choice === null && prefersReducedMotion);
+
+  return { isLowMotion, setLowMotion: (next: boolean) => choiceStore.set(next ? "reduced" : "full") };
+}
+
+export { useLowMotion };
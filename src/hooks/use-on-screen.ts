@@ -0,0 +1,25 @@
+import { useEffect, useState, type RefObject } from "react";
+
+/** Whether the element is at least partly in the viewport and its tab is in the foreground. */
+export function useOnScreen(ref: RefObject<Element>) {
+  const [isIntersecting, setIsIntersecting] = useState(true);
+  const [isPageVisible, setIsPageVisible] = useState(
+    () => typeof document === "undefined" || document.visibilityState === "visible",
+  );
+
+  useEffect(() => {
+    const onVisibilityChange = () => setIsPageVisible(document.visibilityState === "visible");
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === "undefined") return;
+    const observer = new IntersectionObserver(([entry]) => setIsIntersecting(entry.isIntersecting));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return isIntersecting && isPageVisible;
+}
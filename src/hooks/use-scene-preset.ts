@@ -0,0 +1,35 @@
+import { useTheme } from "next-themes";
+import { createPersistedStore, useStore } from "@/hooks/use-store";
+import { isScenePreset, scenePresetSettings, themeScenePreset, type ScenePreset } from "@/lib/scene-presets";
+
+const STORAGE_KEY = "grc-scene";
+
+/** Explicit choice made in the UI; null follows the site theme. */
+const choiceStore = createPersistedStore<ScenePreset | null>({
+  key: STORAGE_KEY,
+  fallback: null,
+  parse: (stored) => (isScenePreset(stored) ? stored : null),
+});
+
+/**
+ * Lighting and backdrop of the 3D wheel. Follows the site theme (daylight when light, night
+ * when dark) until the user picks a preset; picking one that belongs to a theme switches the
+ * site to it, and switching the theme afterwards drops a choice that no longer fits.
+ */
+function useScenePreset() {
+  const choice = useStore(choiceStore);
+  const { resolvedTheme, setTheme } = useTheme();
+
+  const choiceTheme = choice ? scenePresetSettings[choice].theme : null;
+  const preset = choice && (!choiceTheme || choiceTheme === resolvedTheme) ? choice : themeScenePreset(resolvedTheme);
+
+  const setPreset = (next: ScenePreset) => {
+    choiceStore.set(next);
+    const theme = scenePresetSettings[next].theme;
+    if (theme) setTheme(theme);
+  };
+
+  return { preset, setPreset };
+}
+
+export { useScenePreset };
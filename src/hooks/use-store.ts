@@ -0,0 +1,88 @@
+import * as React from "react";
+
+/** Module-level state shared by every component that reads it, outside any React context. */
+export interface Store<T> {
+  get: () => T;
+  set: (state: T) => void;
+  /** Calls `listener` after every `set`; returns a function that unsubscribes it. */
+  subscribe: (listener: (state: T) => void) => () => void;
+}
+
+export function createStore<T>(initialState: T): Store<T> {
+  const listeners: Array<(state: T) => void> = [];
+  let memoryState = initialState;
+
+  return {
+    get: () => memoryState,
+    set: (state) => {
+      memoryState = state;
+      listeners.forEach((listener) => {
+        listener(memoryState);
+      });
+    },
+    subscribe: (listener) => {
+      listeners.push(listener);
+      return () => {
+        const index = listeners.indexOf(listener);
+        if (index > -1) {
+          listeners.splice(index, 1);
+        }
+      };
+    },
+  };
+}
+
+interface PersistedStoreOptions<T> {
+  /** localStorage key. */
+  key: string;
+  /** Used when nothing valid is stored, or storage cannot be read. */
+  fallback: T;
+  /** Turns the stored string back into state; null or undefined for values it does not accept. */
+  parse: (stored: string | null) => T | null | undefined;
+  /** Defaults to `String`. */
+  serialize?: (state: T) => string;
+}
+
+/**
+ * A store saved to localStorage on every `set`. Changes saved by other tabs are picked up
+ * (without writing them back), so every open tab shows the same choice.
+ */
+export function createPersistedStore<T>({
+  key,
+  fallback,
+  parse,
+  serialize = String,
+}: PersistedStoreOptions<T>): Store<T> {
+  const read = () => {
+    try {
+      return parse(localStorage.getItem(key)) ?? fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  const store = createStore(typeof window === "undefined" ? fallback : read());
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", (event) => {
+      if (event.key === key) store.set(read());
+    });
+  }
+
+  return {
+    ...store,
+    set: (state) => {
+      try {
+        localStorage.setItem(key, serialize(state));
+      } catch {
+        // Storage full or disabled (private mode): the state lasts for this page load only
+      }
+      store.set(state);
+    },
+  };
+}
+
+/** Current state of `store`; the component re-renders whenever it is set. */
+export function useStore<T>(store: Store<T>): T {
+  return React.useSyncExternalStore(store.subscribe, store.get);
+}
@@ -0,0 +1,39 @@
+import { useTexture } from "@react-three/drei";
+import { createStore, useStore } from "@/hooks/use-store";
+
+interface State {
+  /**
+   * Texture requests that failed, oldest first. Each entry is the URL list passed to one
+   * `useTexture` call: the loader caches per call, so a retry has to clear the same list.
+   */
+  requests: string[][];
+  /** Bumped on every retry; keyed boundaries remount and request their textures again. */
+  attempt: number;
+}
+
+const failureStore = createStore<State>({ requests: [], attempt: 0 });
+
+const requestKey = (urls: string[]) => urls.join("\n");
+
+/** Records textures a card could not load; the scene keeps going with a placeholder. */
+const reportTextureFailure = (urls: string[]) => {
+  const state = failureStore.get();
+  if (state.requests.some((request) => requestKey(request) === requestKey(urls))) return;
+  failureStore.set({ ...state, requests: [...state.requests, urls] });
+};
+
+/** Drops the failed requests from the loader cache so the next render fetches them again. */
+const retryTextures = () => {
+  const state = failureStore.get();
+  state.requests.forEach((urls) => useTexture.clear(urls));
+  failureStore.set({ requests: [], attempt: state.attempt + 1 });
+};
+
+function useTextureFailures() {
+  const state = useStore(failureStore);
+
+  const urls = [...new Set(state.requests.flat())];
+  return { urls, attempt: state.attempt, retry: retryTextures };
+}
+
+export { reportTextureFailure, retryTextures, useTextureFailures };
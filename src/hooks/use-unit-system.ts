@@ -0,0 +1,27 @@
+import * as React from "react";
+import { useI18n } from "@/hooks/use-i18n";
+import { createPersistedStore, useStore } from "@/hooks/use-store";
+import { unitSystems, type MeasureFormat, type UnitSystem } from "@/lib/units";
+
+const STORAGE_KEY = "grc-unit-system";
+
+const unitSystemStore = createPersistedStore<UnitSystem>({
+  key: STORAGE_KEY,
+  fallback: "metric",
+  parse: (stored) => (unitSystems.includes(stored as UnitSystem) ? (stored as UnitSystem) : null),
+});
+
+function useUnitSystem() {
+  const system = useStore(unitSystemStore);
+
+  return { system, setUnitSystem: (next: UnitSystem) => unitSystemStore.set(next) };
+}
+
+/** Current language and unit system together, as the measurement formatters expect them. */
+function useMeasureFormat(): MeasureFormat {
+  const { locale } = useI18n();
+  const { system } = useUnitSystem();
+  return React.useMemo(() => ({ locale, system }), [locale, system]);
+}
+
+export { useUnitSystem, useMeasureFormat };
@@ -0,0 +1,19 @@
+import { createStore, useStore } from "@/hooks/use-store";
+import { isWebGLAvailable } from "@/lib/render-quality";
+
+const webGLStore = createStore(typeof window === "undefined" ? false : isWebGLAvailable());
+
+/** A canvas lost its context (GPU reset, driver crash, too many contexts): switch to the 2D views. */
+const reportContextLost = () => webGLStore.set(false);
+
+/** Probes again, e.g. when the user asks to retry the 3D view after a context loss. */
+const retryWebGL = () => webGLStore.set(isWebGLAvailable());
+
+/** Whether 3D views can be shown. Shared, so every canvas falls back together once one has failed. */
+function useWebGL() {
+  const isAvailable = useStore(webGLStore);
+
+  return { isAvailable, reportContextLost, retry: retryWebGL };
+}
+
+export { useWebGL };
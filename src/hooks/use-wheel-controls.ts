@@ -0,0 +1,212 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import type * as THREE from "three";
+import { frontRotation } from "@/lib/wheel-config";
+
+/** Radians of wheel rotation per pixel of vertical pointer drag. */
+const DRAG_SENSITIVITY = 0.006;
+/** Angular velocity (rad/s) added per pixel of mouse-wheel / trackpad scroll. */
+const SCROLL_SENSITIVITY = 0.015;
+/** Exponential decay rate of the fling velocity, per second. */
+const FRICTION = 2.5;
+/** Below this speed (rad/s) momentum stops and the wheel eases onto the nearest card. */
+const SNAP_VELOCITY = 0.3;
+const SNAP_STIFFNESS = 8;
+const AUTO_PLAY_SPEED = 0.6;
+/** Focus animation length: the base plus a share proportional to the angle travelled. */
+const FOCUS_BASE_MS = 450;
+const FOCUS_MS_PER_RADIAN = 220;
+/** Scroll distance (px) that moves the wheel one card in low-motion mode, where there is no momentum. */
+const LOW_MOTION_SCROLL_STEP = 60;
+/** How long the wheel waits after the last manual input before auto-play takes over again. */
+export const IDLE_RESUME_MS = 4000;
+
+interface WheelControlsOptions {
+  /** Angle between neighbouring cards; released spins settle on a multiple of it. */
+  stepAngle: number;
+  /** Wheel-local angle of the showcase slot; focus and snapping line cards up with it. */
+  frontAngle: number;
+  /** Pivot axis to rotate. "x" follows vertical drags, "y" horizontal ones. */
+  axis: "x" | "y";
+  /** Auto-play direction along the axis. */
+  direction: 1 | -1;
+  isAutoPlaying: boolean;
+  /** Card to bring to the front, or null. The wheel animates there whenever it changes. */
+  focusIndex: number | null;
+  /** Bumped to animate to `focusIndex` again without it changing, e.g. after the wheel was dragged away. */
+  focusRequest: number;
+  /**
+   * Jump instead of animating: focus and snapping land at once, scrolling steps card by card.
+   * The canvas may then render on demand, so every change here invalidates the frame.
+   */
+  isLowMotion: boolean;
+}
+
+interface FocusTween {
+  from: number;
+  to: number;
+  start: number;
+  duration: number;
+}
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+/** Signed difference `to - from` wrapped into [-π, π), i.e. the shortest way round. */
+export function shortestAngleDelta(from: number, to: number) {
+  const turn = Math.PI * 2;
+  return ((((to - from + Math.PI) % turn) + turn) % turn) - Math.PI;
+}
+
+/**
+ * Pointer-drag and scroll rotation of the wheel pivot around its own axis, with
+ * momentum, friction and snapping, plus eased focus animations onto a card.
+ * Must be used inside the R3F `Canvas`.
+ */
+export function useWheelControls(
+  pivot: RefObject<THREE.Group>,
+  { stepAngle, frontAngle, axis, direction, isAutoPlaying, focusIndex, focusRequest, isLowMotion }: WheelControlsOptions,
+) {
+  const gl = useThree((state) => state.gl);
+  const invalidate = useThree((state) => state.invalidate);
+  // Read by the DOM listeners, which are not re-bound when these change
+  const latest = useRef({ stepAngle, isLowMotion });
+  latest.current = { stepAngle, isLowMotion };
+  const motion = useRef({
+    tween: null as FocusTween | null,
+    isDragging: false,
+    lastPosition: 0,
+    lastTime: 0,
+    velocity: 0,
+    isSettled: true,
+    lastInteraction: Number.NEGATIVE_INFINITY,
+    scrollPixels: 0,
+  });
+
+  useEffect(() => {
+    const element = gl.domElement;
+    const m = motion.current;
+
+    const onPointerDown = (e: PointerEvent) => {
+      m.tween = null;
+      m.isDragging = true;
+      m.isSettled = false;
+      m.velocity = 0;
+      m.lastPosition = axis === "x" ? e.clientY : e.clientX;
+      m.lastTime = e.timeStamp;
+      m.lastInteraction = performance.now();
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      if (!m.isDragging || !pivot.current) return;
+      const position = axis === "x" ? e.clientY : e.clientX;
+      const delta = (position - m.lastPosition) * DRAG_SENSITIVITY;
+      const dt = Math.max((e.timeStamp - m.lastTime) / 1000, 1 / 240);
+      pivot.current.rotation[axis] += delta;
+      // Smoothed so a single jittery event at release does not dominate the fling
+      m.velocity = m.velocity * 0.7 + (delta / dt) * 0.3;
+      m.lastPosition = position;
+      m.lastTime = e.timeStamp;
+      m.lastInteraction = performance.now();
+      invalidate();
+    };
+
+    const onPointerUp = () => {
+      if (!m.isDragging) return;
+      m.isDragging = false;
+      m.lastInteraction = performance.now();
+      invalidate();
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const pixels = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      m.tween = null;
+      m.isSettled = false;
+      m.lastInteraction = performance.now();
+
+      if (latest.current.isLowMotion) {
+        m.scrollPixels += pixels;
+        const steps = Math.trunc(m.scrollPixels / LOW_MOTION_SCROLL_STEP);
+        if (steps !== 0 && pivot.current) {
+          m.scrollPixels -= steps * LOW_MOTION_SCROLL_STEP;
+          pivot.current.rotation[axis] += steps * latest.current.stepAngle;
+        }
+      } else {
+        m.velocity += pixels * SCROLL_SENSITIVITY;
+      }
+      invalidate();
+    };
+
+    element.addEventListener("pointerdown", onPointerDown);
+    element.addEventListener("wheel", onWheel, { passive: false });
+    window.addEventListener("pointermove", onPointerMove);
+    window.addEventListener("pointerup", onPointerUp);
+    window.addEventListener("pointercancel", onPointerUp);
+    return () => {
+      element.removeEventListener("pointerdown", onPointerDown);
+      element.removeEventListener("wheel", onWheel);
+      window.removeEventListener("pointermove", onPointerMove);
+      window.removeEventListener("pointerup", onPointerUp);
+      window.removeEventListener("pointercancel", onPointerUp);
+    };
+  }, [gl, invalidate, pivot, axis]);
+
+  // A card at angle θ reaches the showcase slot when the pivot rotation equals θ + frontAngle (mod 2π)
+  useEffect(() => {
+    if (focusIndex === null || focusIndex < 0 || !pivot.current) return;
+    const from = pivot.current.rotation[axis];
+    const delta = shortestAngleDelta(from, frontRotation(focusIndex, stepAngle, frontAngle));
+    const m = motion.current;
+    m.velocity = 0;
+    m.isSettled = false;
+    m.tween = {
+      from,
+      to: from + delta,
+      start: performance.now(),
+      duration: latest.current.isLowMotion ? 0 : FOCUS_BASE_MS + Math.abs(delta) * FOCUS_MS_PER_RADIAN,
+    };
+    invalidate();
+  }, [focusIndex, focusRequest, stepAngle, frontAngle, pivot, axis, invalidate]);
+
+  useFrame((_, frameDelta) => {
+    const group = pivot.current;
+    const m = motion.current;
+    if (!group || m.isDragging) return;
+
+    if (m.tween) {
+      const { from, to, start, duration } = m.tween;
+      const t = duration > 0 ? Math.min((performance.now() - start) / duration, 1) : 1;
+      group.rotation[axis] = from + (to - from) * easeInOutCubic(t);
+      if (t === 1) {
+        m.tween = null;
+        m.isSettled = true;
+      }
+      return;
+    }
+
+    // Clamp so a backgrounded tab does not fling the wheel on return
+    const dt = Math.min(frameDelta, 0.1);
+
+    if (!m.isSettled) {
+      if (!isLowMotion && Math.abs(m.velocity) > SNAP_VELOCITY) {
+        group.rotation[axis] += m.velocity * dt;
+        m.velocity *= Math.exp(-FRICTION * dt);
+        return;
+      }
+      const target = frontAngle + Math.round((group.rotation[axis] - frontAngle) / stepAngle) * stepAngle;
+      const remaining = target - group.rotation[axis];
+      if (isLowMotion || Math.abs(remaining) < 1e-3) {
+        group.rotation[axis] = target;
+        m.velocity = 0;
+        m.isSettled = true;
+      } else {
+        group.rotation[axis] += remaining * (1 - Math.exp(-SNAP_STIFFNESS * dt));
+      }
+      return;
+    }
+
+    if (isAutoPlaying && !isLowMotion && performance.now() - m.lastInteraction > IDLE_RESUME_MS) {
+      group.rotation[axis] += direction * AUTO_PLAY_SPEED * dt;
+    }
+  });
+}
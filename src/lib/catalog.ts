@@ -0,0 +1,190 @@
+import { z } from "zod";
+import grcOrnament from "@/assets/grc-ornament.jpg";
+import { catalogFinishType, finishTypes } from "@/lib/configurator";
+import { defaultLocale, locales, type Locale } from "@/lib/i18n";
+import { lengthUnits, massUnits, toKilograms, toMeters } from "@/lib/units";
+
+// Extra string fields are kept as-is; their label, unit and placement come from lib/spec-fields
+export const ornamentSpecsSchema = z
+  .object({
+    material: z.string(),
+    finish: z.string(),
+    category: z.string(),
+    warranty: z.string(),
+    loadRating: z.string().optional(),
+    fireRating: z.string().optional(),
+    leadTime: z.string().optional(),
+  })
+  .catchall(z.string());
+
+/** Outer size of one piece: width × height is the visible face, depth is the thickness. */
+export const dimensionsSchema = z.object({
+  width: z.number().positive(),
+  height: z.number().positive(),
+  depth: z.number().positive(),
+  unit: z.enum(lengthUnits),
+});
+
+export const weightSchema = z.object({
+  value: z.number().positive(),
+  unit: z.enum(massUnits),
+});
+
+/** Height-map relief for ornaments without a 3D scan. */
+export const reliefSchema = z.object({
+  /** Grayscale image, white = highest point of the carving. */
+  heightMap: z.string().min(1),
+  /** Carving depth at pure white, in the ornament's `dimensions.unit`. Defaults to half the thickness. */
+  depth: z.number().positive().optional(),
+});
+
+// Per-locale overrides; anything left out keeps the Indonesian source text
+export const ornamentTranslationSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  specs: ornamentSpecsSchema.partial().optional(),
+});
+
+export const imageViews = ["front", "side", "installed", "detail"] as const;
+
+export const ornamentImageSchema = z.object({
+  src: z.string().min(1),
+  view: z.enum(imageViews),
+  alt: z.string().optional(),
+});
+
+export const ornamentSchema = z
+  .object({
+    id: z.number().int().positive(),
+    name: z.string().min(1),
+    /** Image on the wheel card. Defaults to the front view. */
+    texture: z.string().min(1).optional(),
+    /** Gallery photos shown in the detail panel, in display order. */
+    images: z.array(ornamentImageSchema).default([]),
+    /** glTF/GLB file for the 3D viewer; without one the viewer shows the textured card. */
+    model: z.string().min(1).optional(),
+    relief: reliefSchema.optional(),
+    description: z.string(),
+    dimensions: dimensionsSchema,
+    weight: weightSchema,
+    specs: ornamentSpecsSchema,
+    /** Finish the piece ships in, which the configurator starts from. Defaults from `specs.finish`. */
+    finishType: z.enum(finishTypes).optional(),
+    translations: z.record(z.enum(locales), ornamentTranslationSchema).optional(),
+  })
+  .transform((ornament) => {
+    // Products without their own photo fall back to the bundled sample texture
+    const texture = ornament.texture ?? ornament.images.find((image) => image.view === "front")?.src ?? grcOrnament;
+    const images = ornament.images.length > 0 ? ornament.images : [{ src: texture, view: "front" as const }];
+    // Read from the source text: translations may reword `specs.finish`
+    const finishType = ornament.finishType ?? catalogFinishType(ornament.specs.finish);
+    // Kept as loaded when `specs` is translated, so filters on spec values survive a language switch
+    const sourceSpecs = ornament.specs;
+    return { ...ornament, texture, images, finishType, sourceSpecs };
+  });
+
+export const catalogSchema = z.array(ornamentSchema);
+
+/** Drawn on a card whose photo is listed in the catalog but cannot be loaded. */
+export const MISSING_TEXTURE = "/placeholder.svg";
+
+export type OrnamentSpecs = z.infer<typeof ornamentSpecsSchema>;
+export type OrnamentDimensions = z.infer<typeof dimensionsSchema>;
+export type OrnamentWeight = z.infer<typeof weightSchema>;
+export type OrnamentImage = z.infer<typeof ornamentImageSchema>;
+export type ImageView = (typeof imageViews)[number];
+export type OrnamentData = z.infer<typeof ornamentSchema>;
+
+/** The ornament with its text swapped for the given locale's translation, where one exists. */
+export function localizeOrnament(ornament: OrnamentData, locale: Locale): OrnamentData {
+  const translation = locale === defaultLocale ? undefined : ornament.translations?.[locale];
+  if (!translation) return ornament;
+  return {
+    ...ornament,
+    name: translation.name ?? ornament.name,
+    description: translation.description ?? ornament.description,
+    specs: { ...ornament.specs, ...translation.specs },
+  };
+}
+
+export interface CatalogFilter {
+  categories: string[];
+  finishes: string[];
+}
+
+export const emptyCatalogFilter: CatalogFilter = { categories: [], finishes: [] };
+
+export const isCatalogFilterActive = (filter: CatalogFilter) =>
+  filter.categories.length > 0 || filter.finishes.length > 0;
+
+/**
+ * An empty facet matches everything; values within one facet are OR-ed, facets are AND-ed.
+ * Facet values are the untranslated spec text, so a filter holds in every language.
+ */
+export function matchesCatalogFilter(ornament: OrnamentData, filter: CatalogFilter): boolean {
+  return (
+    (filter.categories.length === 0 || filter.categories.includes(ornament.sourceSpecs.category)) &&
+    (filter.finishes.length === 0 || filter.finishes.includes(ornament.sourceSpecs.finish))
+  );
+}
+
+/** Distinct values of a spec field across the catalog, for building filter chips: filter value plus translated label. */
+export function specOptions(ornaments: OrnamentData[], key: keyof OrnamentSpecs) {
+  const labels = new Map(ornaments.map((o) => [o.sourceSpecs[key], o.specs[key]]));
+  return [...labels]
+    .map(([value, label]) => ({ value, label }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export const weightKg = ({ value, unit }: OrnamentWeight) => toKilograms(value, unit);
+
+export const dimensionsM = ({ width, height, depth, unit }: OrnamentDimensions) => ({
+  width: toMeters(width, unit),
+  height: toMeters(height, unit),
+  depth: toMeters(depth, unit),
+});
+
+/** Area of the visible face (width × height) in m², i.e. how much wall one piece covers. */
+export function surfaceAreaM2(dimensions: OrnamentDimensions): number {
+  const { width, height } = dimensionsM(dimensions);
+  return width * height;
+}
+
+/** Relief depth as a fraction of the ornament's width, so it can be scaled onto a card of any size. */
+export function reliefDepthRatio({ dimensions, relief }: Pick<OrnamentData, "dimensions" | "relief">): number {
+  if (!relief) return 0;
+  return (relief.depth ?? dimensions.depth / 2) / dimensions.width;
+}
+
+/** Load one piece puts on the wall per m² of face, for checking fixings and substructure. */
+export const weightPerM2 = (ornament: Pick<OrnamentData, "dimensions" | "weight">) =>
+  weightKg(ornament.weight) / surfaceAreaM2(ornament.dimensions);
+
+/** App route that opens the wheel with the given ornament selected. */
+export const ornamentPath = (id: number) => `/ornament/${id}`;
+
+// Without a backend, the mock catalog is served in development and copied into the build
+export const CATALOG_URL = import.meta.env.VITE_CATALOG_URL ?? "/api/ornaments.json";
+
+export class CatalogError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "CatalogError";
+  }
+}
+
+async function getJson(url: string, signal?: AbortSignal): Promise<unknown> {
+  const response = await fetch(url, { signal, headers: { Accept: "application/json" } });
+  if (!response.ok) {
+    throw new CatalogError(`Catalog request failed: ${response.status} ${response.statusText}`, response.status);
+  }
+  return response.json();
+}
+
+export async function fetchCatalog(signal?: AbortSignal): Promise<OrnamentData[]> {
+  const result = catalogSchema.safeParse(await getJson(CATALOG_URL, signal));
+  if (!result.success) {
+    throw new CatalogError(`Invalid catalog data: ${result.error.message}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import type { OrnamentData } from "@/lib/catalog";
+import type { MessageKey, Translate } from "@/lib/i18n";
+
+export const finishTypes = ["natural", "painted"] as const;
+
+export type FinishType = (typeof finishTypes)[number];
+
+/** Factory paint colours. `hex` tints the card photo, so keep them light enough for the texture to show through. */
+export const paintColors = [
+  { id: "white", hex: "#f5f3ee" },
+  { id: "ivory", hex: "#eadfc4" },
+  { id: "sandstone", hex: "#d6bb8e" },
+  { id: "terracotta", hex: "#c77a58" },
+  { id: "sage", hex: "#a3b18f" },
+  { id: "slate", hex: "#7d868c" },
+  { id: "charcoal", hex: "#4a4d50" },
+] as const;
+
+export type PaintColor = (typeof paintColors)[number]["id"];
+
+const paintColorIds = paintColors.map((c) => c.id) as [PaintColor, ...PaintColor[]];
+
+export const ornamentConfigurationSchema = z.discriminatedUnion("finish", [
+  z.object({ finish: z.literal("natural") }),
+  z.object({ finish: z.literal("painted"), color: z.enum(paintColorIds) }),
+]);
+
+export type OrnamentConfiguration = z.infer<typeof ornamentConfigurationSchema>;
+
+// Catalog finishes are free text; these are the ones the configurator can start from
+const catalogFinishes: Record<string, FinishType> = {
+  "Natural Stone": "natural",
+  "Painted Finish": "painted",
+};
+
+/** Finish type for an untranslated catalog `specs.finish`; anything unknown counts as natural. */
+export const catalogFinishType = (finish: string): FinishType => catalogFinishes[finish] ?? "natural";
+
+/** The configuration an ornament is shown in before the user changes anything. */
+export function defaultConfiguration(ornament: Pick<OrnamentData, "finishType">): OrnamentConfiguration {
+  return ornament.finishType === "painted"
+    ? { finish: "painted", color: paintColors[0].id }
+    : { finish: "natural" };
+}
+
+/** Switches finish type, keeping the paint colour the user already picked where there is one. */
+export const withFinish = (configuration: OrnamentConfiguration, finish: FinishType): OrnamentConfiguration =>
+  finish === "natural"
+    ? { finish }
+    : { finish, color: configuration.finish === "painted" ? configuration.color : paintColors[0].id };
+
+export const isSameConfiguration = (a: OrnamentConfiguration, b: OrnamentConfiguration) =>
+  configurationKey(a) === configurationKey(b);
+
+/** Stable string form, e.g. "natural" or "painted:ivory"; used to tell basket lines apart. */
+export const configurationKey = (configuration: OrnamentConfiguration) =>
+  configuration.finish === "painted" ? `painted:${configuration.color}` : configuration.finish;
+
+export interface FinishMaterial {
+  color: string;
+  roughness: number;
+  metalness: number;
+}
+
+/** Material settings for a card in the given configuration; the colour multiplies the photo. */
+export function finishMaterial(configuration: OrnamentConfiguration): FinishMaterial {
+  if (configuration.finish === "painted") {
+    const paint = paintColors.find((c) => c.id === configuration.color) ?? paintColors[0];
+    return { color: paint.hex, roughness: 0.4, metalness: 0.05 };
+  }
+  // Raw GRC: the photo's own colour, matte
+  return { color: "#ffffff", roughness: 0.9, metalness: 0 };
+}
+
+export const finishLabel = (finish: FinishType): MessageKey => `configurator.finish.${finish}`;
+
+export const paintColorLabel = (color: PaintColor): MessageKey => `configurator.color.${color}`;
+
+/** One-line description for summaries, e.g. "Painted · Ivory". */
+export const describeConfiguration = (configuration: OrnamentConfiguration, t: Translate) =>
+  configuration.finish === "painted"
+    ? `${t(finishLabel("painted"))} · ${t(paintColorLabel(configuration.color))}`
+    : t(finishLabel(configuration.finish));
+
+/** Reads `?finish=painted&color=ivory`; null when the URL has no (valid) configuration. */
+export function parseConfiguration(params: URLSearchParams): OrnamentConfiguration | null {
+  const result = ornamentConfigurationSchema.safeParse({
+    finish: params.get("finish"),
+    color: params.get("color") ?? undefined,
+  });
+  return result.success ? result.data : null;
+}
+
+/** Query string that `parseConfiguration` reads back, so a configured ornament can be shared by link. */
+export function configurationSearch(configuration: OrnamentConfiguration): string {
+  const params = new URLSearchParams({ finish: configuration.finish });
+  if (configuration.finish === "painted") params.set("color", configuration.color);
+  return `?${params}`;
+}
@@ -0,0 +1,46 @@
+/** Part of the app an error came from; monitoring can group and filter by it. */
+export type ErrorScope = "scene" | "card" | "texture" | "environment" | "model" | "viewer" | "preview" | "inquiry";
+
+export interface ErrorReport {
+  scope: ErrorScope;
+  /** What the user sees instead, e.g. "placeholder" or "error-state". */
+  recovery: string;
+  error: unknown;
+  /** Whatever identifies the failing piece: ornament id, asset URLs... */
+  context?: Record<string, string | number | string[]>;
+  /** React component stack, when the error came through an error boundary. */
+  componentStack?: string;
+  timestamp: number;
+}
+
+export type ErrorReporter = (report: ErrorReport) => void;
+
+const reporters: ErrorReporter[] = [];
+
+/**
+ * Hooks a monitoring service (Sentry, an analytics endpoint...) into the app's error reports.
+ * Returns a function that unhooks it again.
+ */
+export function addErrorReporter(reporter: ErrorReporter) {
+  reporters.push(reporter);
+  return () => {
+    const index = reporters.indexOf(reporter);
+    if (index > -1) {
+      reporters.splice(index, 1);
+    }
+  };
+}
+
+/** Logs a handled error and passes it to every registered reporter. */
+export function reportError(report: Omit<ErrorReport, "timestamp">) {
+  const full: ErrorReport = { ...report, timestamp: Date.now() };
+  console.warn(`[${full.scope}] recovered with ${full.recovery}:`, full.error, full.context ?? "");
+  reporters.forEach((reporter) => {
+    try {
+      reporter(full);
+    } catch (error) {
+      // A broken reporter must not turn a handled error into an unhandled one
+      console.error("Error reporter failed:", error);
+    }
+  });
+}
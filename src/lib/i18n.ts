@@ -0,0 +1,65 @@
+import { en } from "@/locales/en";
+import { id } from "@/locales/id";
+
+export const locales = ["id", "en"] as const;
+
+export type Locale = (typeof locales)[number];
+
+/** Indonesian is the source language: catalog content and new strings are written in it first. */
+export const defaultLocale: Locale = "id";
+
+export type MessageKey = keyof typeof id;
+export type Messages = Record<MessageKey, string>;
+
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+export const dictionaries: Record<Locale, Messages> = { id, en };
+
+export const localeNames: Record<Locale, string> = {
+  id: "Bahasa Indonesia",
+  en: "English",
+};
+
+// BCP 47 tags handed to Intl; the short codes above are what the UI and storage use
+const intlLocales: Record<Locale, string> = {
+  id: "id-ID",
+  en: "en-US",
+};
+
+export const isLocale = (value: unknown): value is Locale => locales.includes(value as Locale);
+
+/** Looks up a message and fills `{name}` placeholders. Numbers are formatted for the locale. */
+export function translate(locale: Locale, key: MessageKey, params?: TranslationParams): string {
+  const message = dictionaries[locale][key] ?? dictionaries[defaultLocale][key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === "number" ? formatNumber(locale, value) : value;
+  });
+}
+
+export type MeasureUnit = "kilogram" | "pound" | "centimeter" | "inch" | "meter" | "day";
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(intlLocales[locale], options).format(value);
+
+/** Formats a measurement with its unit, e.g. 1234.5 kg → "1.234,5 kg" (id) or "1,234.5 kg" (en). */
+export const formatUnit = (
+  locale: Locale,
+  value: number,
+  unit: MeasureUnit,
+  options?: Intl.NumberFormatOptions,
+) => formatNumber(locale, value, { maximumFractionDigits: 1, ...options, style: "unit", unit });
+
+/** Best match for the browser's preferred languages, falling back to Indonesian. */
+export function detectLocale(): Locale {
+  if (typeof navigator === "undefined") return defaultLocale;
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const language = tag?.split("-")[0].toLowerCase();
+    if (isLocale(language)) return language;
+  }
+  return defaultLocale;
+}
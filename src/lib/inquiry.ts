@@ -0,0 +1,95 @@
+import { z } from "zod";
+import type { OrnamentData, OrnamentDimensions, OrnamentSpecs, OrnamentWeight } from "@/lib/catalog";
+import { defaultConfiguration, type OrnamentConfiguration } from "@/lib/configurator";
+import type { Translate } from "@/lib/i18n";
+
+// Schemas are built per language so validation messages follow the UI locale
+export const createInquiryContactSchema = (t: Translate) =>
+  z.object({
+    projectLocation: z.string().trim().min(3, t("inquiry.error.projectLocation")),
+    name: z.string().trim().min(2, t("inquiry.error.name")),
+    email: z.string().trim().email(t("inquiry.error.email")),
+    phone: z
+      .string()
+      .trim()
+      .regex(/^\+?[0-9\s-]{8,16}$/, t("inquiry.error.phone")),
+    message: z.string().trim().max(1000, t("inquiry.error.message")).optional(),
+  });
+
+export const createQuantitySchema = (t: Translate) =>
+  z.coerce
+    .number({ invalid_type_error: t("inquiry.error.quantityType") })
+    .int(t("inquiry.error.quantityInt"))
+    .min(1, t("inquiry.error.quantityMin"))
+    .max(10000, t("inquiry.error.quantityMax"));
+
+export type InquiryContact = z.infer<ReturnType<typeof createInquiryContactSchema>>;
+
+export interface InquiryItem {
+  ornamentId: number;
+  name: string;
+  dimensions: OrnamentDimensions;
+  weight: OrnamentWeight;
+  specs: OrnamentSpecs;
+  /** Finish the customer picked; the catalog finish when they did not change it. */
+  configuration: OrnamentConfiguration;
+  quantity: number;
+}
+
+export interface InquiryRequest extends InquiryContact {
+  items: InquiryItem[];
+}
+
+export interface InquiryReceipt {
+  reference: string;
+}
+
+/** Where quote requests are sent. Swap implementations without touching the form. */
+export interface InquiryAdapter {
+  submit(request: InquiryRequest): Promise<InquiryReceipt>;
+}
+
+export const toInquiryItem = (
+  ornament: OrnamentData,
+  quantity: number,
+  configuration: OrnamentConfiguration = defaultConfiguration(ornament),
+): InquiryItem => ({
+  ornamentId: ornament.id,
+  name: ornament.name,
+  dimensions: ornament.dimensions,
+  weight: ornament.weight,
+  specs: ornament.specs,
+  configuration,
+  quantity,
+});
+
+export function createHttpInquiryAdapter(url: string): InquiryAdapter {
+  return {
+    async submit(request) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        throw new Error(`Inquiry request failed: ${response.status} ${response.statusText}`);
+      }
+      return (await response.json()) as InquiryReceipt;
+    },
+  };
+}
+
+// Local stand-in used until a real endpoint is configured
+export const mockInquiryAdapter: InquiryAdapter = {
+  async submit() {
+    await new Promise((resolve) => setTimeout(resolve, 800));
+    const reference = `GRC-${Date.now().toString(36).toUpperCase()}`;
+    // Reference only: the request carries the customer's contact details
+    console.info("Mock inquiry submitted:", reference);
+    return { reference };
+  },
+};
+
+export const defaultInquiryAdapter: InquiryAdapter = import.meta.env.VITE_INQUIRY_URL
+  ? createHttpInquiryAdapter(import.meta.env.VITE_INQUIRY_URL)
+  : mockInquiryAdapter;
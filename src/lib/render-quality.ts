@@ -0,0 +1,77 @@
+export const renderQualities = ["low", "medium", "high"] as const;
+
+export type RenderQuality = (typeof renderQualities)[number];
+
+export interface RenderQualitySettings {
+  /** Upper bound for the canvas device pixel ratio. */
+  maxDpr: number;
+  /** Grid columns of the card reliefs; 0 leaves reliefs out and shows the flat photo. */
+  reliefSegments: number;
+  /** Cards either side of the front drawn with frame, glow and label; the rest are the bare card. */
+  detailedCards: number;
+  /** Cards either side of the front drawn at all; the rest of the rim is left empty. */
+  renderedCards: number;
+  /** Card face shading: physically based, or Lambert, which skips specular and reflections. */
+  cardMaterial: "standard" | "lambert";
+  /** Image-based lighting from the scene preset's environment map; off leaves the lights alone. */
+  environmentMap: boolean;
+}
+
+export const renderQualitySettings: Record<RenderQuality, RenderQualitySettings> = {
+  // Three cards either side: the half of the rim facing the camera
+  low: {
+    maxDpr: 1,
+    reliefSegments: 0,
+    detailedCards: 2,
+    renderedCards: 3,
+    cardMaterial: "lambert",
+    environmentMap: false,
+  },
+  medium: {
+    maxDpr: 1.5,
+    reliefSegments: 64,
+    detailedCards: 5,
+    renderedCards: Number.POSITIVE_INFINITY,
+    cardMaterial: "standard",
+    environmentMap: true,
+  },
+  high: {
+    maxDpr: 2,
+    reliefSegments: 128,
+    detailedCards: Number.POSITIVE_INFINITY,
+    renderedCards: Number.POSITIVE_INFINITY,
+    cardMaterial: "standard",
+    environmentMap: true,
+  },
+};
+
+export const lowerQuality = (quality: RenderQuality): RenderQuality =>
+  renderQualities[Math.max(0, renderQualities.indexOf(quality) - 1)];
+
+export const raiseQuality = (quality: RenderQuality): RenderQuality =>
+  renderQualities[Math.min(renderQualities.length - 1, renderQualities.indexOf(quality) + 1)];
+
+/** Starting guess from the hardware; the frame-time monitor adjusts it once the wheel is running. */
+export function initialRenderQuality(): RenderQuality {
+  if (typeof navigator === "undefined") return "medium";
+  // deviceMemory is Chromium-only; elsewhere only the core count is known
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  const cores = navigator.hardwareConcurrency ?? 4;
+  if ((memory !== undefined && memory <= 2) || cores <= 2) return "low";
+  if ((memory !== undefined && memory <= 4) || cores <= 4) return "medium";
+  return "high";
+}
+
+/** Whether the browser can create a WebGL context at all (disabled, blocklisted GPU, headless...). */
+export function isWebGLAvailable(): boolean {
+  if (typeof document === "undefined") return false;
+  try {
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("webgl2") ?? canvas.getContext("webgl");
+    // Hand the probe context back straight away; browsers cap how many can be live
+    context?.getExtension("WEBGL_lose_context")?.loseContext();
+    return context !== null;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,69 @@
+import type { EnvironmentProps } from "@react-three/drei";
+import type { Vec3 } from "@/lib/wheel-config";
+
+export const scenePresets = ["studio", "daylight", "night"] as const;
+
+export type ScenePreset = (typeof scenePresets)[number];
+
+export interface SceneLight {
+  type: "directional" | "spot";
+  /**
+   * Directional lights: scene position. Spot lights: offset from the card in the showcase
+   * slot, which they aim at wherever the layout puts it.
+   */
+  position: Vec3;
+  color: string;
+  intensity: number;
+  /** Spot lights only: cone half-angle in radians. */
+  angle?: number;
+}
+
+export interface ScenePresetSettings {
+  /** drei environment map: reflections on the metal frames and hub, plus soft fill light. */
+  environment: EnvironmentProps["preset"];
+  /** Canvas clear colour. */
+  background: string;
+  ambient: { color: string; intensity: number };
+  lights: SceneLight[];
+  /** Site theme the preset belongs to; picking it switches the site too. Null fits either. */
+  theme: "light" | "dark" | null;
+}
+
+export const scenePresetSettings: Record<ScenePreset, ScenePresetSettings> = {
+  // Neutral backdrop close to the page around the canvas, even light to judge the surface
+  studio: {
+    environment: "studio",
+    background: "#14141c",
+    ambient: { color: "#ffffff", intensity: 0.6 },
+    lights: [
+      { type: "directional", position: [10, 10, 5], color: "#ffffff", intensity: 1.2 },
+      { type: "directional", position: [-8, 4, 6], color: "#dfe6ff", intensity: 0.4 },
+    ],
+    theme: null,
+  },
+  // Ornaments as they look on a facade: open sky, low warm sun raking across the carving
+  daylight: {
+    environment: "city",
+    background: "#bcd7ec",
+    ambient: { color: "#eaf2ff", intensity: 0.7 },
+    lights: [{ type: "directional", position: [12, 14, 4], color: "#fff3dc", intensity: 1.6 }],
+    theme: "light",
+  },
+  // After dark: faint moonlight, warm uplights below the front card throwing the relief into shadow
+  night: {
+    environment: "night",
+    background: "#05060d",
+    ambient: { color: "#8c9bd6", intensity: 0.15 },
+    lights: [
+      { type: "directional", position: [-6, 10, 4], color: "#9fb3ff", intensity: 0.25 },
+      { type: "spot", position: [-2.5, -5, 4], color: "#ffb46b", intensity: 60, angle: 0.45 },
+      { type: "spot", position: [2.5, -5, 4], color: "#ffb46b", intensity: 60, angle: 0.45 },
+    ],
+    theme: "dark",
+  },
+};
+
+export const isScenePreset = (value: unknown): value is ScenePreset => scenePresets.includes(value as ScenePreset);
+
+/** Preset that goes with the site theme when the user has not picked one. */
+export const themeScenePreset = (theme: string | undefined): ScenePreset => (theme === "dark" ? "night" : "daylight");
@@ -0,0 +1,154 @@
+import {
+  CircleDot,
+  Clock,
+  Flame,
+  Gauge,
+  Layers,
+  Paintbrush,
+  Ruler,
+  Scale,
+  ShieldCheck,
+  Square,
+  Tag,
+  Weight,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  dimensionsM,
+  surfaceAreaM2,
+  weightKg,
+  weightPerM2,
+  type OrnamentData,
+  type OrnamentDimensions,
+} from "@/lib/catalog";
+import { formatUnit, type MeasureUnit, type MessageKey, type Translate } from "@/lib/i18n";
+import { formatArea, formatArealDensity, formatLength, formatMass, type MeasureFormat } from "@/lib/units";
+
+export type SpecGroup = "material" | "size" | "performance" | "service" | "other";
+
+/** How one spec field is labelled, formatted and placed. */
+export interface SpecField {
+  key: string;
+  /** Message key for the label. Unregistered fields show their key, humanized, instead. */
+  label?: MessageKey;
+  /** Unit of the leading number in a `specs` string; the number is re-formatted for the locale. */
+  unit?: MeasureUnit;
+  /** Abbreviated ("kg") or spelled-out ("hari", "days") unit; defaults to short. */
+  unitDisplay?: "short" | "long";
+  /** Display value computed from structured ornament data instead of read from `specs[key]`. */
+  value?: (ornament: OrnamentData, format: MeasureFormat) => string | undefined;
+  icon: LucideIcon;
+  group: SpecGroup;
+  /** Position within the group, ascending. */
+  order: number;
+}
+
+export const specGroups: { id: SpecGroup; label: MessageKey }[] = [
+  { id: "material", label: "specGroup.material" },
+  { id: "size", label: "specGroup.size" },
+  { id: "performance", label: "specGroup.performance" },
+  { id: "service", label: "specGroup.service" },
+  { id: "other", label: "specGroup.other" },
+];
+
+/** Width × height × depth in the chosen unit system. */
+export function formatDimensions(dimensions: OrnamentDimensions, format: MeasureFormat): string {
+  const { width, height, depth } = dimensionsM(dimensions);
+  return [width, height, depth].map((meters) => formatLength(meters, format)).join(" × ");
+}
+
+// Menambah field baru cukup di sini (dan di skema catalog); panel detail tidak perlu diubah
+const registry: SpecField[] = [
+  { key: "material", label: "spec.material", icon: Layers, group: "material", order: 10 },
+  { key: "finish", label: "spec.finish", icon: Paintbrush, group: "material", order: 20 },
+  {
+    key: "dimensions",
+    label: "spec.dimensions",
+    value: (ornament, format) => formatDimensions(ornament.dimensions, format),
+    icon: Ruler,
+    group: "size",
+    order: 10,
+  },
+  {
+    key: "weight",
+    label: "spec.weight",
+    value: (ornament, format) => formatMass(weightKg(ornament.weight), format),
+    icon: Weight,
+    group: "size",
+    order: 20,
+  },
+  {
+    key: "surfaceArea",
+    label: "spec.surfaceArea",
+    value: (ornament, format) => formatArea(surfaceAreaM2(ornament.dimensions), format),
+    icon: Square,
+    group: "size",
+    order: 30,
+  },
+  {
+    key: "weightPerArea",
+    label: "spec.weightPerArea",
+    value: (ornament, format) => formatArealDensity(weightPerM2(ornament), format),
+    icon: Scale,
+    group: "size",
+    order: 40,
+  },
+  { key: "category", label: "spec.category", icon: Tag, group: "performance", order: 10 },
+  { key: "loadRating", label: "spec.loadRating", icon: Gauge, group: "performance", order: 20 },
+  { key: "fireRating", label: "spec.fireRating", icon: Flame, group: "performance", order: 30 },
+  { key: "warranty", label: "spec.warranty", icon: ShieldCheck, group: "service", order: 10 },
+  {
+    key: "leadTime",
+    label: "spec.leadTime",
+    unit: "day",
+    unitDisplay: "long",
+    icon: Clock,
+    group: "service",
+    order: 20,
+  },
+];
+
+export const specFields: Record<string, SpecField> = Object.fromEntries(registry.map((field) => [field.key, field]));
+
+/** Registered field for a key, or a generic one so unknown fields from the API still render. */
+export const getSpecField = (key: string): SpecField =>
+  specFields[key] ?? { key, icon: CircleDot, group: "other", order: Number.MAX_SAFE_INTEGER };
+
+const groupIndex = (group: SpecGroup) => specGroups.findIndex((g) => g.id === group);
+
+export const compareSpecFields = (a: SpecField, b: SpecField) =>
+  groupIndex(a.group) - groupIndex(b.group) || a.order - b.order || a.key.localeCompare(b.key);
+
+/** An ornament's value for a field, formatted for display; undefined when it has none. */
+export function specValue(field: SpecField, ornament: OrnamentData, format: MeasureFormat): string | undefined {
+  if (field.value) return field.value(ornament, format);
+  const raw = ornament.specs[field.key];
+  if (!raw) return undefined;
+  if (field.unit) {
+    const amount = parseFloat(raw.replace(",", "."));
+    if (!Number.isFinite(amount)) return raw;
+    return formatUnit(format.locale, amount, field.unit, { unitDisplay: field.unitDisplay });
+  }
+  return raw;
+}
+
+/** Fields with a value for any of the given ornaments, in display order. */
+export function presentSpecFields(ornaments: OrnamentData[], format: MeasureFormat): SpecField[] {
+  const keys = new Set([...registry.map((field) => field.key), ...ornaments.flatMap((o) => Object.keys(o.specs))]);
+  return [...keys]
+    .map(getSpecField)
+    .filter((field) => ornaments.some((ornament) => specValue(field, ornament, format) !== undefined))
+    .sort(compareSpecFields);
+}
+
+/** Present fields bucketed by group, skipping empty groups. */
+export function groupSpecFields(fields: SpecField[]) {
+  return specGroups
+    .map((group) => ({ ...group, fields: fields.filter((field) => field.group === group.id) }))
+    .filter((group) => group.fields.length > 0);
+}
+
+const humanize = (key: string) =>
+  key.replace(/[_-]+/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2").replace(/^./, (c) => c.toUpperCase());
+
+export const specLabel = (field: SpecField, t: Translate) => (field.label ? t(field.label) : humanize(field.key));
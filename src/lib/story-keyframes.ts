@@ -0,0 +1,58 @@
+/** Where the story's product card sits while one section is on screen. */
+export interface StorySectionKeyframe {
+  /**
+   * Scroll progress range (0–1) during which the card stays docked in this section's slot.
+   * The gap up to the next section's range is the transition between the two slots.
+   */
+  dwell: [start: number, end: number];
+  /** Card scale while docked; above 1 makes the section stand out. Defaults to 1. */
+  scale?: number;
+  /** Card tilt in degrees while docked. Defaults to 0. */
+  rotate?: number;
+}
+
+/**
+ * Splits the scroll evenly between `count` sections, leaving `transition` of the progress
+ * between neighbouring dwell ranges for the card to travel.
+ */
+export function evenSectionKeyframes(count: number, transition = 0.02): StorySectionKeyframe[] {
+  return Array.from({ length: count }, (_, index) => ({
+    dwell: [
+      index === 0 ? 0 : index / count + transition / 2,
+      index === count - 1 ? 1 : (index + 1) / count - transition / 2,
+    ],
+  }));
+}
+
+/** Index of the section the card is docked in, or last left, at the given progress. */
+export function activeSectionIndex(keyframes: StorySectionKeyframe[], progress: number) {
+  let active = 0;
+  keyframes.forEach((keyframe, index) => {
+    if (progress >= keyframe.dwell[0]) active = index;
+  });
+  return active;
+}
+
+/**
+ * Low-motion version of the card's path: instead of travelling between slots the card fades
+ * out, jumps halfway through the transition and fades back in at the next slot.
+ * `section[i]` is the slot the card sits in at `points[i]`, `opacity[i]` its opacity there.
+ */
+export function crossFadeKeyframes(keyframes: StorySectionKeyframe[]) {
+  const points: number[] = [];
+  const section: number[] = [];
+  const opacity: number[] = [];
+  keyframes.forEach((keyframe, index) => {
+    points.push(...keyframe.dwell);
+    section.push(index, index);
+    opacity.push(1, 1);
+    const next = keyframes[index + 1];
+    if (!next) return;
+    const midpoint = (keyframe.dwell[1] + next.dwell[0]) / 2;
+    // Two points a hair apart make the jump instantaneous while the card is invisible
+    points.push(midpoint, midpoint + 1e-4);
+    section.push(index, index + 1);
+    opacity.push(0, 0);
+  });
+  return { points, section, opacity };
+}
@@ -0,0 +1,48 @@
+import { formatNumber, formatUnit, type Locale } from "@/lib/i18n";
+
+export const lengthUnits = ["mm", "cm", "m"] as const;
+export const massUnits = ["g", "kg"] as const;
+export const unitSystems = ["metric", "imperial"] as const;
+
+export type LengthUnit = (typeof lengthUnits)[number];
+export type MassUnit = (typeof massUnits)[number];
+export type UnitSystem = (typeof unitSystems)[number];
+
+/** Everything a measurement needs to be displayed: language for the digits, system for the units. */
+export interface MeasureFormat {
+  locale: Locale;
+  system: UnitSystem;
+}
+
+const METERS_PER: Record<LengthUnit, number> = { mm: 0.001, cm: 0.01, m: 1 };
+const KILOGRAMS_PER: Record<MassUnit, number> = { g: 0.001, kg: 1 };
+
+const METERS_PER_INCH = 0.0254;
+const SQUARE_METERS_PER_SQUARE_FOOT = 0.09290304;
+const KILOGRAMS_PER_POUND = 0.45359237;
+
+export const toMeters = (value: number, unit: LengthUnit) => value * METERS_PER[unit];
+export const toKilograms = (value: number, unit: MassUnit) => value * KILOGRAMS_PER[unit];
+
+export const formatLength = (meters: number, { locale, system }: MeasureFormat) =>
+  system === "metric"
+    ? formatUnit(locale, meters * 100, "centimeter")
+    : formatUnit(locale, meters / METERS_PER_INCH, "inch");
+
+export const formatMass = (kilograms: number, { locale, system }: MeasureFormat) =>
+  system === "metric"
+    ? formatUnit(locale, kilograms, "kilogram")
+    : formatUnit(locale, kilograms / KILOGRAMS_PER_POUND, "pound");
+
+// Intl has no area units, so the symbol is appended by hand
+export const formatArea = (squareMeters: number, { locale, system }: MeasureFormat) =>
+  system === "metric"
+    ? `${formatNumber(locale, squareMeters, { maximumFractionDigits: 2 })} m²`
+    : `${formatNumber(locale, squareMeters / SQUARE_METERS_PER_SQUARE_FOOT, { maximumFractionDigits: 2 })} ft²`;
+
+export const formatArealDensity = (kgPerSquareMeter: number, { locale, system }: MeasureFormat) =>
+  system === "metric"
+    ? `${formatNumber(locale, kgPerSquareMeter, { maximumFractionDigits: 1 })} kg/m²`
+    : `${formatNumber(locale, (kgPerSquareMeter * SQUARE_METERS_PER_SQUARE_FOOT) / KILOGRAMS_PER_POUND, {
+        maximumFractionDigits: 1,
+      })} lb/ft²`;
@@ -0,0 +1,96 @@
+export type Vec3 = [number, number, number];
+
+export interface WheelConfig {
+  /** Distance from the hub to the card centres, in scene units. */
+  radius: number;
+  card: {
+    width: number;
+    height: number;
+    depth: number;
+  };
+  /**
+   * Angle between neighbouring cards in radians. Leave undefined to spread the
+   * cards evenly over a full turn, whatever the catalog size.
+   */
+  cardSpacing?: number;
+  /** Where the wheel hub sits relative to the scene origin. */
+  pivotOffset: Vec3;
+  camera: {
+    position: Vec3;
+    lookAt: Vec3;
+    fov: number;
+  };
+  /** "x" spins like a film roll (cards pass top to bottom), "y" like a carousel. */
+  rotationAxis: "x" | "y";
+  /** Auto-play direction: 1 or -1 along the rotation axis. */
+  direction: 1 | -1;
+  /**
+   * Wheel-local angle of the showcase slot, where the selected card is turned to. π is the
+   * far side of the rim, whose cards show their photo side (the face towards the hub) to the
+   * camera; 0 is the near side, between the hub and the camera.
+   */
+  frontAngle: number;
+}
+
+export type WheelConfigOverrides = Partial<Omit<WheelConfig, "card" | "camera">> & {
+  card?: Partial<WheelConfig["card"]>;
+  camera?: Partial<WheelConfig["camera"]>;
+};
+
+export const defaultWheelConfig: WheelConfig = {
+  radius: 8,
+  card: { width: 3.8, height: 2.6, depth: 0.15 },
+  // Hub digeser ke kanan agar bagian belakang wheel terdorong ke kanan layar
+  pivotOffset: [12, 0, 0],
+  camera: { position: [0, 0.5, 12], lookAt: [0, 0, 0], fov: 50 },
+  rotationAxis: "x",
+  direction: -1, // belakang → depan
+  // The near side of the rim is off-screen to the left and shows the cards' backs
+  frontAngle: Math.PI,
+};
+
+/**
+ * Portrait canvases (phones, upright tablets): centre the wheel and push it back so the front card fits the
+ * narrow horizontal field of view, leaving room for the bottom detail drawer.
+ * The hub then hides the far side of the rim, so cards are shown on the near side.
+ */
+export const portraitWheelOverrides: WheelConfigOverrides = {
+  pivotOffset: [0, 1.5, -6],
+  camera: { position: [0, 0.5, 14], lookAt: [0, 0, 0] },
+  frontAngle: 0,
+};
+
+/** Applies override layers on top of the defaults; later layers win. */
+export function resolveWheelConfig(...layers: (WheelConfigOverrides | undefined)[]): WheelConfig {
+  return layers.reduce<WheelConfig>(
+    (config, overrides = {}) => ({
+      ...config,
+      ...overrides,
+      card: { ...config.card, ...overrides.card },
+      camera: { ...config.camera, ...overrides.camera },
+    }),
+    defaultWheelConfig,
+  );
+}
+
+/** Angle between neighbouring cards for a catalog of `count` items. */
+export const cardStepAngle = (config: WheelConfig, count: number) =>
+  config.cardSpacing ?? (Math.PI * 2) / Math.max(count, 1);
+
+/** Pivot rotation that puts card `index` in the showcase slot at `frontAngle`. */
+export const frontRotation = (index: number, stepAngle: number, frontAngle: number) => index * stepAngle + frontAngle;
+
+/** Index of the card nearest the showcase slot at `frontAngle` for a given pivot rotation. */
+export function frontCardIndex(rotation: number, stepAngle: number, count: number, frontAngle: number) {
+  const steps = Math.round((rotation - frontAngle) / stepAngle);
+  return ((steps % count) + count) % count;
+}
+
+/** Scene position of the card in the showcase slot: the pivot offset plus the slot on the rim. */
+export function frontSlotPosition(config: WheelConfig): Vec3 {
+  const [x, y, z] = config.pivotOffset;
+  const across = config.radius * Math.sin(config.frontAngle);
+  const depth = config.radius * Math.cos(config.frontAngle);
+  // The Y-axis wheel is the X-axis one turned 90° about Z, so the slot swings sideways instead
+  return config.rotationAxis === "y" ? [x + across, y, z + depth] : [x, y - across, z + depth];
+}
@@ -0,0 +1,180 @@
+import type { Messages } from "@/lib/i18n";
+
+export const en: Messages = {
+  "app.title": "GRC Ornaments",
+  "app.loading": "LOADING...",
+  "app.catalogError": "CATALOG FAILED TO LOAD",
+  "app.sceneError": "THE 3D VIEW FAILED TO LOAD",
+  "app.flatView": "Show without 3D",
+  "app.retry": "Try Again",
+  "app.play": "▶ PLAY",
+  "app.pause": "◼ PAUSE",
+  "app.language": "Language",
+  "app.autoPlayOff": "Auto-play is off in reduced motion mode",
+
+  "hint.noMatches": "NO ORNAMENTS MATCH THE FILTERS",
+  "hint.keyboard": "↑ ↓ BROWSE · ENTER VIEW DETAILS · ESC CLOSE",
+  "hint.touch": "SWIPE TO ROTATE · TAP TO VIEW DETAILS",
+  "hint.pointer": "DRAG TO ROTATE · CLICK TO VIEW DETAILS",
+
+  "spec.material": "Material",
+  "spec.dimensions": "Dimensions",
+  "spec.weight": "Weight",
+  "spec.finish": "Finish",
+  "spec.category": "Category",
+  "spec.warranty": "Warranty",
+  "spec.loadRating": "Load Rating",
+  "spec.fireRating": "Fire Rating",
+  "spec.leadTime": "Lead Time",
+  "spec.surfaceArea": "Surface Area",
+  "spec.weightPerArea": "Weight per Area",
+
+  "specGroup.material": "Material & Finish",
+  "specGroup.size": "Size",
+  "specGroup.performance": "Use & Performance",
+  "specGroup.service": "Service",
+  "specGroup.other": "Other",
+
+  "motion.reduce": "Reduce motion",
+
+  "scene.label": "3D scene lighting",
+  "scene.studio": "Studio",
+  "scene.daylight": "Daylight facade",
+  "scene.night": "Night with uplights",
+
+  "fallback.label": "Ornament catalog",
+  "fallback.notice": "The 3D view is not available on this device",
+  "fallback.retry": "Try 3D again",
+
+  "loading.assets": "{loaded} of {total} images loaded",
+  "loading.failed": "{count} images failed to load",
+  "loading.retry": "Reload images",
+
+  "units.label": "Units of measure",
+  "units.metric": "Metric",
+  "units.imperial": "Imperial",
+
+  "detail.close": "Close details",
+  "detail.specs": "Technical Specifications",
+  "detail.decrease": "Decrease quantity",
+  "detail.increase": "Increase quantity",
+  "detail.addToBasket": "Add to List",
+  "detail.addedToBasket": "Added to the quote list",
+  "detail.contact": "Contact Us",
+
+  "configurator.title": "Finish",
+  "configurator.finishLabel": "Finish type",
+  "configurator.colorLabel": "Paint colour",
+  "configurator.reset": "Reset",
+  "configurator.finish.natural": "Natural stone",
+  "configurator.finish.painted": "Painted",
+  "configurator.color.white": "White",
+  "configurator.color.ivory": "Ivory",
+  "configurator.color.sandstone": "Sandstone",
+  "configurator.color.terracotta": "Terracotta",
+  "configurator.color.sage": "Sage",
+  "configurator.color.slate": "Slate",
+  "configurator.color.charcoal": "Charcoal",
+
+  "media.label": "Media view",
+  "media.photos": "Photos",
+  "media.model": "3D",
+  "viewer.hint": "DRAG TO ORBIT · SCROLL TO ZOOM",
+  "viewer.error": "The 3D view of this ornament failed to load",
+
+  "gallery.views": "Photo views",
+  "gallery.view.front": "Front",
+  "gallery.view.side": "Side",
+  "gallery.view.installed": "Installed",
+  "gallery.view.detail": "Detail",
+  "gallery.zoomIn": "Zoom in",
+  "gallery.zoomOut": "Zoom out",
+
+  "listbox.label": "Ornament catalog. Use the arrow keys to move, Enter to open details, Escape to close.",
+  "listbox.position": "{name}, {position} of {total}. {category}, {finish}.",
+
+  "search.open": "Search ornaments",
+  "search.placeholder": "Search names, descriptions or specifications...",
+  "search.empty": "No matching ornaments.",
+  "search.group": "Ornaments",
+
+  "filters.category": "Category filter",
+  "filters.finish": "Finish filter",
+  "filters.nonMatching": "Non-matching ornaments",
+  "filters.dim": "Dim",
+  "filters.hide": "Hide",
+  "filters.reset": "Reset",
+
+  "basket.open": "Quote list, {count} units",
+  "basket.title": "Quote List",
+  "basket.description": "Collect several ornaments for one project, then send them together.",
+  "basket.empty": "No ornaments in the list yet.",
+  "basket.decrease": "Decrease",
+  "basket.increase": "Increase",
+  "basket.remove": "Remove {name}",
+  "basket.totalWeight": "Total weight",
+  "basket.submit": "Send Quote Request",
+
+  "compare.title": "Compare",
+  "compare.open": "Compare, {count} ornaments",
+  "compare.toggle": "Compare",
+  "compare.full": "At most {max} ornaments",
+  "compare.fullDescription": "Remove one ornament from the comparison first.",
+  "compare.clear": "Clear",
+  "compare.back": "← Catalog",
+  "compare.empty": "No ornaments selected for comparison yet.",
+  "compare.emptyHint": 'Open an ornament\'s details and press "Compare" to pick up to {max} ornaments.',
+  "compare.remove": "Remove {name} from the comparison",
+
+  "inquiry.title": "Request a Quote",
+  "inquiry.description": "Fill in your project details for {subject}. We will send you a price quote.",
+  "inquiry.basketSubject": "{count} ornament types",
+  "inquiry.totalWeight": "Total weight ±{weight}",
+  "inquiry.quantity": "Quantity (units)",
+  "inquiry.projectLocation": "Project Location",
+  "inquiry.projectLocationPlaceholder": "City / address",
+  "inquiry.name": "Name",
+  "inquiry.email": "Email",
+  "inquiry.phone": "Phone Number",
+  "inquiry.message": "Notes (optional)",
+  "inquiry.messagePlaceholder": "Colour, installation schedule, etc.",
+  "inquiry.cancel": "Cancel",
+  "inquiry.submit": "Send Request",
+  "inquiry.submitting": "Sending...",
+  "inquiry.sent": "Quote request sent",
+  "inquiry.sentDescription": "Reference number {reference}. Our team will contact you shortly.",
+  "inquiry.failed": "Could not send the request",
+  "inquiry.failedDescription": "Please try again in a moment.",
+  "inquiry.error.projectLocation": "Project location is required",
+  "inquiry.error.name": "Name is required",
+  "inquiry.error.email": "Invalid email address",
+  "inquiry.error.phone": "Invalid phone number",
+  "inquiry.error.message": "Notes can be at most 1000 characters",
+  "inquiry.error.quantityType": "Quantity must be a number",
+  "inquiry.error.quantityInt": "Quantity must be a whole number",
+  "inquiry.error.quantityMin": "At least 1 unit",
+  "inquiry.error.quantityMax": "At most 10,000 units",
+
+  "story.open": "Product story",
+  "story.back": "← Catalog",
+  "story.scrollHint": "Scroll to begin",
+  "story.section1.eyebrow": "01 · Design",
+  "story.section1.title": "It starts with a sketch",
+  "story.section1.body": "Our craftsmen redraw every motif, from the classic kawung to modern geometry, then carve it into a master mould.",
+  "story.section2.eyebrow": "02 · Casting",
+  "story.section2.title": "Glass fibre reinforced concrete",
+  "story.section2.body": "A mix of cement, fine sand and glass fibre is sprayed layer by layer. The result is thin and light, yet tough enough for tropical weather.",
+  "story.section3.eyebrow": "03 · Finishing",
+  "story.section3.title": "Stone texture or a colour of your choice",
+  "story.section3.body": "Leave the surface natural like sandstone, or coat it in exterior paint in a colour that blends with your facade.",
+  "story.section4.eyebrow": "04 · Installation",
+  "story.section4.title": "Ready to grace your project",
+  "story.section4.body": "Modules are fixed with hidden anchors so the joints all but disappear. Browse the catalog to choose your ornaments.",
+  "story.card.title": "Venetian Collection",
+  "story.card.subtitle": "Handcrafted GRC wall ornament with classical elegance",
+  "story.card.imageAlt": "Premium GRC wall ornament",
+  "story.cta": "Browse the Catalog",
+
+  "notFound.message": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+};
@@ -0,0 +1,180 @@
+// Bahasa sumber: setiap kunci baru ditambahkan di sini terlebih dahulu, lalu di en.ts
+export const id = {
+  "app.title": "GRC Ornaments",
+  "app.loading": "MEMUAT...",
+  "app.catalogError": "KATALOG GAGAL DIMUAT",
+  "app.sceneError": "TAMPILAN 3D GAGAL DIMUAT",
+  "app.flatView": "Tampilkan tanpa 3D",
+  "app.retry": "Coba Lagi",
+  "app.play": "▶ PUTAR",
+  "app.pause": "◼ JEDA",
+  "app.language": "Bahasa",
+  "app.autoPlayOff": "Putar otomatis nonaktif dalam mode gerak minimal",
+
+  "hint.noMatches": "TIDAK ADA ORNAMEN YANG COCOK DENGAN FILTER",
+  "hint.keyboard": "↑ ↓ JELAJAHI · ENTER LIHAT DETAIL · ESC TUTUP",
+  "hint.touch": "GESER UNTUK MEMUTAR · KETUK UNTUK DETAIL",
+  "hint.pointer": "SERET UNTUK MEMUTAR · KLIK UNTUK DETAIL",
+
+  "spec.material": "Material",
+  "spec.dimensions": "Dimensi",
+  "spec.weight": "Berat",
+  "spec.finish": "Finishing",
+  "spec.category": "Kategori",
+  "spec.warranty": "Garansi",
+  "spec.loadRating": "Beban Maksimum",
+  "spec.fireRating": "Ketahanan Api",
+  "spec.leadTime": "Waktu Produksi",
+  "spec.surfaceArea": "Luas Permukaan",
+  "spec.weightPerArea": "Berat per Luas",
+
+  "specGroup.material": "Material & Finishing",
+  "specGroup.size": "Ukuran",
+  "specGroup.performance": "Penggunaan & Kinerja",
+  "specGroup.service": "Layanan",
+  "specGroup.other": "Lainnya",
+
+  "motion.reduce": "Kurangi gerakan",
+
+  "scene.label": "Suasana tampilan 3D",
+  "scene.studio": "Studio",
+  "scene.daylight": "Fasad siang hari",
+  "scene.night": "Malam dengan lampu sorot",
+
+  "fallback.label": "Katalog ornamen",
+  "fallback.notice": "Tampilan 3D tidak tersedia di perangkat ini",
+  "fallback.retry": "Coba 3D lagi",
+
+  "loading.assets": "{loaded} dari {total} gambar dimuat",
+  "loading.failed": "{count} gambar gagal dimuat",
+  "loading.retry": "Muat ulang gambar",
+
+  "units.label": "Satuan ukuran",
+  "units.metric": "Metrik",
+  "units.imperial": "Imperial",
+
+  "detail.close": "Tutup detail",
+  "detail.specs": "Spesifikasi Teknis",
+  "detail.decrease": "Kurangi jumlah",
+  "detail.increase": "Tambah jumlah",
+  "detail.addToBasket": "Tambah ke Daftar",
+  "detail.addedToBasket": "Ditambahkan ke daftar penawaran",
+  "detail.contact": "Hubungi Kami",
+
+  "configurator.title": "Finishing",
+  "configurator.finishLabel": "Jenis finishing",
+  "configurator.colorLabel": "Warna cat",
+  "configurator.reset": "Kembalikan",
+  "configurator.finish.natural": "Batu alami",
+  "configurator.finish.painted": "Dicat",
+  "configurator.color.white": "Putih",
+  "configurator.color.ivory": "Gading",
+  "configurator.color.sandstone": "Batu pasir",
+  "configurator.color.terracotta": "Terakota",
+  "configurator.color.sage": "Hijau sage",
+  "configurator.color.slate": "Abu batu",
+  "configurator.color.charcoal": "Arang",
+
+  "media.label": "Tampilan media",
+  "media.photos": "Foto",
+  "media.model": "3D",
+  "viewer.hint": "SERET UNTUK MEMUTAR · GULIR UNTUK ZOOM",
+  "viewer.error": "Tampilan 3D ornamen ini gagal dimuat",
+
+  "gallery.views": "Tampilan foto",
+  "gallery.view.front": "Tampak Depan",
+  "gallery.view.side": "Tampak Samping",
+  "gallery.view.installed": "Terpasang",
+  "gallery.view.detail": "Detail",
+  "gallery.zoomIn": "Perbesar foto",
+  "gallery.zoomOut": "Perkecil foto",
+
+  "listbox.label":
+    "Katalog ornamen. Gunakan tombol panah untuk berpindah, Enter untuk membuka detail, Escape untuk menutup.",
+  "listbox.position": "{name}, {position} dari {total}. {category}, {finish}.",
+
+  "search.open": "Cari ornamen",
+  "search.placeholder": "Cari nama, deskripsi, atau spesifikasi...",
+  "search.empty": "Tidak ada ornamen yang cocok.",
+  "search.group": "Ornamen",
+
+  "filters.category": "Filter kategori",
+  "filters.finish": "Filter finishing",
+  "filters.nonMatching": "Ornamen yang tidak cocok",
+  "filters.dim": "Redupkan",
+  "filters.hide": "Sembunyikan",
+  "filters.reset": "Reset",
+
+  "basket.open": "Daftar penawaran, {count} unit",
+  "basket.title": "Daftar Penawaran",
+  "basket.description": "Kumpulkan beberapa ornamen untuk satu proyek, lalu kirim sekaligus.",
+  "basket.empty": "Belum ada ornamen di daftar.",
+  "basket.decrease": "Kurangi",
+  "basket.increase": "Tambah",
+  "basket.remove": "Hapus {name}",
+  "basket.totalWeight": "Total berat",
+  "basket.submit": "Kirim Permintaan Penawaran",
+
+  "compare.title": "Bandingkan",
+  "compare.open": "Bandingkan, {count} ornamen",
+  "compare.toggle": "Bandingkan",
+  "compare.full": "Maksimal {max} ornamen",
+  "compare.fullDescription": "Lepas salah satu ornamen dari perbandingan terlebih dahulu.",
+  "compare.clear": "Kosongkan",
+  "compare.back": "← Katalog",
+  "compare.empty": "Belum ada ornamen yang dipilih untuk dibandingkan.",
+  "compare.emptyHint": 'Buka detail ornamen dan tekan "Bandingkan" untuk memilih hingga {max} ornamen.',
+  "compare.remove": "Hapus {name} dari perbandingan",
+
+  "inquiry.title": "Minta Penawaran",
+  "inquiry.description": "Lengkapi detail proyek Anda untuk {subject}. Kami akan mengirim penawaran harga.",
+  "inquiry.basketSubject": "{count} jenis ornamen",
+  "inquiry.totalWeight": "Total berat ±{weight}",
+  "inquiry.quantity": "Jumlah (unit)",
+  "inquiry.projectLocation": "Lokasi Proyek",
+  "inquiry.projectLocationPlaceholder": "Kota / alamat",
+  "inquiry.name": "Nama",
+  "inquiry.email": "Email",
+  "inquiry.phone": "No. Telepon",
+  "inquiry.message": "Catatan (opsional)",
+  "inquiry.messagePlaceholder": "Warna, jadwal pemasangan, dll.",
+  "inquiry.cancel": "Batal",
+  "inquiry.submit": "Kirim Permintaan",
+  "inquiry.submitting": "Mengirim...",
+  "inquiry.sent": "Permintaan penawaran terkirim",
+  "inquiry.sentDescription": "Nomor referensi {reference}. Tim kami akan menghubungi Anda segera.",
+  "inquiry.failed": "Gagal mengirim permintaan",
+  "inquiry.failedDescription": "Silakan coba lagi beberapa saat lagi.",
+  "inquiry.error.projectLocation": "Lokasi proyek wajib diisi",
+  "inquiry.error.name": "Nama wajib diisi",
+  "inquiry.error.email": "Format email tidak valid",
+  "inquiry.error.phone": "Nomor telepon tidak valid",
+  "inquiry.error.message": "Pesan maksimal 1000 karakter",
+  "inquiry.error.quantityType": "Jumlah harus berupa angka",
+  "inquiry.error.quantityInt": "Jumlah harus bilangan bulat",
+  "inquiry.error.quantityMin": "Minimal 1 unit",
+  "inquiry.error.quantityMax": "Maksimal 10.000 unit",
+
+  "story.open": "Cerita produk",
+  "story.back": "← Katalog",
+  "story.scrollHint": "Gulir untuk memulai",
+  "story.section1.eyebrow": "01 · Desain",
+  "story.section1.title": "Berawal dari sketsa",
+  "story.section1.body": "Setiap motif digambar ulang oleh perajin kami, dari kawung klasik hingga geometri modern, lalu dipahat menjadi master cetakan.",
+  "story.section2.eyebrow": "02 · Cetak",
+  "story.section2.title": "Beton diperkuat serat kaca",
+  "story.section2.body": "Campuran semen, pasir halus dan serat kaca disemprot lapis demi lapis. Hasilnya tipis, ringan, namun kuat menahan cuaca tropis.",
+  "story.section3.eyebrow": "03 · Finishing",
+  "story.section3.title": "Tekstur batu atau warna pilihan",
+  "story.section3.body": "Biarkan permukaan alami seperti batu pasir, atau lapisi dengan cat eksterior dalam warna yang menyatu dengan fasad Anda.",
+  "story.section4.eyebrow": "04 · Pemasangan",
+  "story.section4.title": "Siap menghiasi proyek Anda",
+  "story.section4.body": "Modul dipasang dengan angkur tersembunyi sehingga sambungan nyaris tak terlihat. Jelajahi katalog untuk memilih ornamen Anda.",
+  "story.card.title": "Koleksi Venetian",
+  "story.card.subtitle": "Ornamen dinding GRC buatan tangan dengan keanggunan klasik",
+  "story.card.imageAlt": "Ornamen dinding GRC premium",
+  "story.cta": "Jelajahi Katalog",
+
+  "notFound.message": "Ups! Halaman tidak ditemukan",
+  "notFound.home": "Kembali ke Beranda",
+};
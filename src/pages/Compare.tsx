@@ -0,0 +1,111 @@
+import { Link } from "react-router-dom";
+import { OrnamentPreview } from "@/components/OrnamentPreview";
+import { UnitSystemToggle } from "@/components/UnitSystemToggle";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MAX_COMPARE, useCompare } from "@/hooks/use-compare";
+import { useCatalog } from "@/hooks/use-catalog";
+import { useI18n } from "@/hooks/use-i18n";
+import { useMeasureFormat } from "@/hooks/use-unit-system";
+import { ornamentPath } from "@/lib/catalog";
+import { presentSpecFields, specLabel, specValue } from "@/lib/spec-fields";
+
+const Compare = () => {
+  const { data: ornaments = [], isLoading } = useCatalog();
+  const { ids, toggle, clear } = useCompare();
+  const { t } = useI18n();
+  const measure = useMeasureFormat();
+
+  // Keep pin order; ornaments no longer in the catalog drop out
+  const pinned = ids.flatMap((id) => ornaments.filter((o) => o.id === id));
+  const fields = presentSpecFields(pinned, measure);
+
+  return (
+    <div className="min-h-screen bg-[#080810] text-foreground">
+      <header className="h-20 px-6 md:px-12 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="w-2 h-2 bg-accent rounded-full animate-pulse shadow-[0_0_15px_hsl(var(--accent))]" />
+          <h1 className="text-lg md:text-xl font-light text-white tracking-[0.4em] uppercase">{t("compare.title")}</h1>
+        </div>
+        <div className="flex items-center gap-4 font-mono text-xs uppercase tracking-widest">
+          <UnitSystemToggle />
+          {pinned.length > 0 && (
+            <button onClick={clear} className="text-muted-foreground hover:text-accent">
+              {t("compare.clear")}
+            </button>
+          )}
+          <Link
+            to="/"
+            className="px-6 py-2.5 rounded-full border border-accent/20 text-muted-foreground hover:border-accent/40"
+          >
+            {t("compare.back")}
+          </Link>
+        </div>
+      </header>
+
+      <main className="px-6 md:px-12 pb-12">
+        {isLoading ? (
+          <p className="py-24 text-center font-mono text-sm tracking-wider text-muted-foreground">{t("app.loading")}</p>
+        ) : pinned.length === 0 ? (
+          <div className="py-24 text-center">
+            <p className="text-muted-foreground">{t("compare.empty")}</p>
+            <p className="mt-2 text-sm text-muted-foreground">{t("compare.emptyHint", { max: MAX_COMPARE })}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-3xl border border-white/10 bg-black/30 backdrop-blur-xl">
+            <Table className="text-white">
+              <TableHeader>
+                <TableRow className="border-white/10 hover:bg-transparent">
+                  <TableHead className="w-40" />
+                  {pinned.map((ornament) => (
+                    <TableHead key={ornament.id} className="min-w-[220px] h-auto py-4 align-top">
+                      <OrnamentPreview ornament={ornament} className="rounded-xl border border-white/10" />
+                      <div className="mt-3 flex items-start justify-between gap-2">
+                        <Link
+                          to={ornamentPath(ornament.id)}
+                          className="text-base font-light tracking-[0.2em] uppercase text-white hover:text-cyan-300"
+                        >
+                          {ornament.name}
+                        </Link>
+                        <button
+                          onClick={() => toggle(ornament.id)}
+                          aria-label={t("compare.remove", { name: ornament.name })}
+                          className="text-muted-foreground hover:text-white"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map((field) => {
+                  const values = pinned.map((o) => specValue(field, o, measure));
+                  const differs = new Set(values).size > 1;
+                  return (
+                    <TableRow key={field.key} className="border-white/10 hover:bg-white/5">
+                      <TableCell className="font-mono text-[10px] uppercase tracking-wider text-gray-500">
+                        {specLabel(field, t)}
+                        {differs && <span className="ml-2 text-cyan-400">●</span>}
+                      </TableCell>
+                      {values.map((value, i) => (
+                        <TableCell
+                          key={pinned[i].id}
+                          className={differs ? "bg-cyan-500/10 font-medium text-cyan-100" : "text-gray-300"}
+                        >
+                          {value ?? "—"}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Compare;
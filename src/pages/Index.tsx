@@ -1,7 +1,40 @@
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import FilmRollWheel from "@/components/FilmRollWheel";
+import { useCatalog } from "@/hooks/use-catalog";
+import { ornamentPath } from "@/lib/catalog";
+import { configurationSearch, parseConfiguration } from "@/lib/configurator";
+import NotFound from "./NotFound";
 
 const Index = () => {
-  return <FilmRollWheel />;
+  const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { data: ornaments } = useCatalog();
+
+  const selectedId = id === undefined ? null : Number(id);
+  // The finish lives in the query string so a configured ornament can be shared as a link
+  const configuration = selectedId === null ? null : parseConfiguration(searchParams);
+
+  // Unknown ids can only be judged once the catalog has loaded
+  const isUnknown =
+    id !== undefined &&
+    (!Number.isInteger(selectedId) || (ornaments && !ornaments.some((o) => o.id === selectedId)));
+
+  if (isUnknown) return <NotFound />;
+
+  return (
+    <FilmRollWheel
+      selectedId={selectedId}
+      onSelectedIdChange={(next, options) =>
+        navigate(next === null ? "/" : ornamentPath(next), { replace: options?.replace })
+      }
+      configuration={configuration}
+      // Replace rather than push: trying colours should not fill up the back button
+      onConfigurationChange={(next) =>
+        navigate({ pathname: ornamentPath(selectedId), search: configurationSearch(next) }, { replace: true })
+      }
+    />
+  );
 };
 
 export default Index;
@@ -0,0 +1,193 @@
+import { useLayoutEffect, useRef, useState, type RefObject } from "react";
+import { Link } from "react-router-dom";
+import { useMotionValueEvent, useScroll } from "framer-motion";
+import ornamentImage from "@/assets/grc-ornament.jpg";
+import { AnimatedProductCard } from "@/components/AnimatedProductCard";
+import { AnimatedText } from "@/components/AnimatedText";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { MotionToggle } from "@/components/MotionToggle";
+import { PuzzleSlot } from "@/components/PuzzleSlot";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
+import { activeSectionIndex, evenSectionKeyframes, type StorySectionKeyframe } from "@/lib/story-keyframes";
+
+interface StorySection {
+  /** Suffix of the `--section-N-*` theme variables in index.css. */
+  theme: 1 | 2 | 3 | 4;
+  eyebrow: MessageKey;
+  title: MessageKey;
+  body: MessageKey;
+  /** Side the text sits on; the slot takes the other one. */
+  textSide: "left" | "right";
+  /** How the product card stands out while docked here. */
+  card: Pick<StorySectionKeyframe, "scale" | "rotate">;
+}
+
+const sections: StorySection[] = ([1, 2, 3, 4] as const).map((theme) => ({
+  theme,
+  eyebrow: `story.section${theme}.eyebrow`,
+  title: `story.section${theme}.title`,
+  body: `story.section${theme}.body`,
+  textSide: theme % 2 === 1 ? "left" : "right",
+  // Finishing is the part customers choose themselves, so the card steps forward there
+  card: theme === 3 ? { scale: 1.1 } : {},
+}));
+
+const cardKeyframes = evenSectionKeyframes(sections.length).map((keyframe, index) => ({
+  ...keyframe,
+  ...sections[index].card,
+}));
+
+const themeColor = (theme: StorySection["theme"], role: "bg" | "text" | "accent") =>
+  `hsl(var(--section-${theme}-${role}))`;
+
+/**
+ * Offset of each slot's center from the viewport center at the moment its section fills the
+ * screen, which is where the fixed product card has to move to dock into it.
+ */
+function useSlotTargets(
+  sectionRefs: RefObject<(HTMLElement | null)[]>,
+  slotRefs: RefObject<(HTMLElement | null)[]>,
+) {
+  const [targets, setTargets] = useState<{ x: number; y: number }[]>();
+
+  useLayoutEffect(() => {
+    const measure = () => {
+      setTargets(
+        slotRefs.current.map((slot, index) => {
+          const section = sectionRefs.current[index];
+          if (!slot || !section) return { x: 0, y: 0 };
+          const slotRect = slot.getBoundingClientRect();
+          // Relative to the section, so the result does not depend on how far the page is scrolled
+          const top = slotRect.top - section.getBoundingClientRect().top;
+          return {
+            x: slotRect.left + slotRect.width / 2 - window.innerWidth / 2,
+            y: top + slotRect.height / 2 - window.innerHeight / 2,
+          };
+        }),
+      );
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    sectionRefs.current.forEach((section) => section && observer.observe(section));
+    window.addEventListener("resize", measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener("resize", measure);
+    };
+  }, [sectionRefs, slotRefs]);
+
+  return targets;
+}
+
+const Story = () => {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sectionRefs = useRef<(HTMLElement | null)[]>([]);
+  const slotRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [activeSection, setActiveSection] = useState(0);
+  const targets = useSlotTargets(sectionRefs, slotRefs);
+
+  // One progress value for the whole page: the card, the text and the theme all read from it
+  const { scrollYProgress } = useScroll({ target: containerRef, offset: ["start start", "end end"] });
+
+  // The theme switches as the card docks into the next slot
+  useMotionValueEvent(scrollYProgress, "change", (progress) => {
+    setActiveSection(activeSectionIndex(cardKeyframes, progress));
+  });
+
+  const active = sections[activeSection];
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative transition-colors duration-700"
+      style={{ backgroundColor: themeColor(active.theme, "bg"), color: themeColor(active.theme, "text") }}
+    >
+      <header className="fixed top-0 left-0 right-0 z-[60] h-20 px-6 md:px-12 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: themeColor(active.theme, "accent") }} />
+          <span className="text-sm md:text-base font-light tracking-[0.4em] uppercase">{t("app.title")}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <LanguageSwitcher />
+          <MotionToggle />
+          <Link
+            to="/"
+            className="px-6 py-2.5 rounded-full border border-current font-mono text-xs uppercase tracking-widest opacity-70 hover:opacity-100 transition-opacity"
+          >
+            {t("story.back")}
+          </Link>
+        </div>
+      </header>
+
+      <AnimatedProductCard
+        scrollProgress={scrollYProgress}
+        sections={cardKeyframes}
+        targets={targets}
+        image={ornamentImage}
+        imageAlt={t("story.card.imageAlt")}
+        title={t("story.card.title")}
+        subtitle={t("story.card.subtitle")}
+      />
+
+      {sections.map((section, index) => {
+        const isLast = index === sections.length - 1;
+        const [dwellStart, dwellEnd] = cardKeyframes[index].dwell;
+        return (
+          <section
+            key={section.theme}
+            ref={(el) => {
+              sectionRefs.current[index] = el;
+            }}
+            aria-labelledby={`story-section-${index}`}
+            className="h-screen px-6 md:px-12 pt-20 grid grid-rows-2 md:grid-rows-1 md:grid-cols-2 items-center gap-8"
+          >
+            <AnimatedText
+              scrollProgress={scrollYProgress}
+              // First and last sections stay readable at the very top and bottom of the page
+              startProgress={index === 0 ? 0 : dwellStart + 0.01}
+              endProgress={isLast ? 1 : dwellEnd - 0.01}
+              direction={section.textSide}
+              className={`max-w-md ${section.textSide === "right" ? "md:order-2 md:justify-self-end" : ""}`}
+            >
+              <p
+                className="mb-3 font-mono text-xs uppercase tracking-[0.3em]"
+                style={{ color: themeColor(section.theme, "accent") }}
+              >
+                {t(section.eyebrow)}
+              </p>
+              <h2 id={`story-section-${index}`} className="mb-4 text-3xl md:text-5xl font-light leading-tight">
+                {t(section.title)}
+              </h2>
+              <p className="text-base md:text-lg leading-relaxed opacity-80">{t(section.body)}</p>
+              {index === 0 && (
+                <p className="mt-8 font-mono text-[10px] uppercase tracking-widest opacity-50">{t("story.scrollHint")}</p>
+              )}
+              {isLast && (
+                <Link
+                  to="/"
+                  className="mt-8 inline-block px-6 py-3 rounded-full font-mono text-xs uppercase tracking-widest text-black"
+                  style={{ backgroundColor: themeColor(section.theme, "accent") }}
+                >
+                  {t("story.cta")}
+                </Link>
+              )}
+            </AnimatedText>
+            <div
+              ref={(el) => {
+                slotRefs.current[index] = el;
+              }}
+              className={`justify-self-center ${section.textSide === "right" ? "md:order-1" : ""}`}
+            >
+              <PuzzleSlot isActive={index === activeSection} accentColor={themeColor(section.theme, "accent")} />
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Story;
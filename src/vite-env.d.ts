@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the ornament catalog API. Defaults to the local mock at `/api/ornaments`. */
+  readonly VITE_CATALOG_URL?: string;
+  /** Endpoint that receives quote requests as JSON. Inquiries are only logged locally when unset. */
+  readonly VITE_INQUIRY_URL?: string;
+}
@@ -60,6 +60,7 @@ export default {
         section1: {
           bg: "hsl(var(--section-1-bg))",
           text: "hsl(var(--section-1-text))",
+          accent: "hsl(var(--section-1-accent))",
         },
         section2: {
           bg: "hsl(var(--section-2-bg))",